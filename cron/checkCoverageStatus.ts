@@ -1,101 +1,73 @@
-import cron from 'node-cron';
-import axios from 'axios';
-import { pool } from '../src/main'; // Import the MySQL pool from your main file
-import { google } from 'googleapis';
+import { COVERAGE_POLL_FALLBACK_MINUTES } from '../src/config';
+import { applyCoverageResult, markCoverageChecked } from '../src/coverage';
+import { formatMySQLDateTime } from '../src/dates';
+import { pool } from '../src/db';
+import type { Job, JobOutcome } from '../src/jobs';
+import { getOperatorAdapter } from '../src/operators';
+import { SheetRowNotFoundError } from '../src/sheetSync';
 
-async function runCronJob() {
+async function runCronJob(): Promise<JobOutcome> {
 	console.log('Running cron job to retrieve update status from bot check coverage service');
 
-	try {
-		// Fetch submissions that need status updates
-		const [rows] = await pool.execute(
-			`SELECT id, checkCoverageBotId FROM submissions WHERE checkCoverageBotId IS NOT NULL AND checkCoverageBotFinish = 0`
-		);
+	const outcome: JobOutcome = { processed: 0, errors: 0 };
 
-		const submissions = rows as { id: string; checkCoverageBotId: number }[];
+	// Results normally arrive through the coverage bot webhook, so only
+	// poll the checks it has been quiet about for a while
+	const quietSince = new Date(Date.now() - COVERAGE_POLL_FALLBACK_MINUTES * 60 * 1000);
+	const [rows] = await pool.execute(
+		`SELECT cc.id, cc.submission_id, cc.operator, cc.external_id
+		FROM coverage_checks cc
+		JOIN submissions s ON s.id = cc.submission_id
+		WHERE s.status IN ('dispatched', 'awaiting_operator', 'failed')
+		AND cc.external_id IS NOT NULL AND cc.finished = 0
+		AND COALESCE(cc.last_checked_at, cc.dispatched_at) < ?`,
+		[formatMySQLDateTime(quietSince)]
+	);
 
-		if (submissions.length === 0) {
-			console.log('No submissions require status updates');
-			return;
-		}
-
-		let sheetIds: string[][] = []; // Initialize sheetIds as an empty array
-		let sheets: any;
-		try {
-			const auth = new google.auth.GoogleAuth({
-				keyFile: process.env.SERVICE_ACCOUNT_JSON_KEY_FILE,
-				scopes: ['https://www.googleapis.com/auth/spreadsheets'],
-			});
-			const authClient = await auth.getClient();
-			sheets = google.sheets({ version: 'v4', auth: authClient });
-
-			const range = 'Sheet1!A:A'; // only fetch column A
-			const response = await sheets.spreadsheets.values.get({
-				spreadsheetId: process.env.FS_CHECK_COVERAGE_SPREADSHEET,
-				range,
-			});
-			sheetIds = response.data.values || []; // Ensure sheetIds is an array
-		} catch (error) {
-			console.log('Error fetching spreadsheet data:', error.message);
-			return;
-		}
-
-		for (const submission of submissions) {
-			try {
-				// Make a request to the bot check coverage service to get the status
-				const url = `${process.env.FS_CHECK_COVERAGE_BOT_HOST}/api/check-coverage/${submission.checkCoverageBotId}`;
-				const headers = {
-					'Content-Type': 'application/json',
-					'x-api-key': process.env.FS_CHECK_COVERAGE_BOT_API_KEY,
-				};
-
-				const response = await axios.get(url, { headers });
+	const checks = rows as { id: number; submission_id: string; operator: string; external_id: string }[];
 
-				if (response.status === 200) {
-					const content = response.data?.data;
-					const isCovered = content.is_covered;
-					const homepassedId = content.homepassed_id;
-					const ticketClosedDate = content.ticket_closed_date;
-
-					if (isCovered !== null) {
-						if ((isCovered == 1 && homepassedId && ticketClosedDate) || isCovered == 0) {
-							await pool.execute(
-								`UPDATE submissions SET checkCoverageBotFinish = ? WHERE id = ?`,
-								[1, submission.id]
-							);
-						}
+	if (checks.length === 0) {
+		console.log('No submissions require status updates');
+		return outcome;
+	}
 
-						const rowIndex = sheetIds.findIndex((row) => row[0] === submission.id);
-						const updateRange = "Sheet1!K" + (rowIndex + 1); // Assuming you want to update column J
+	for (const check of checks) {
+		try {
+			const adapter = getOperatorAdapter(check.operator);
+			if (!adapter) {
+				console.error(`No coverage adapter registered for operator ${check.operator}`);
+				outcome.errors++;
+				continue;
+			}
 
-						const updateValues = [
-							isCovered ? 'Covered' : 'Not Covered',
-							homepassedId ? homepassedId : '',
-							content.operator_remarks ? content.operator_remarks : '',
-							ticketClosedDate ? ticketClosedDate : ''
-						];
+			// Ask the operator's checker for the status
+			const result = await adapter.fetchResult(check.external_id);
+			await markCoverageChecked(check.id);
+			if (!result) {
+				continue;
+			}
 
-						// Write to the spreadsheet
-						await sheets.spreadsheets.values.update({
-							spreadsheetId: process.env.FS_CHECK_COVERAGE_SPREADSHEET,
-							range: updateRange,
-							valueInputOption: 'USER_ENTERED',
-							requestBody: {
-							values: [updateValues],
-							},
-						});
-					}
-				} else {
-					console.error(`Failed to fetch status for submission ID ${submission.id}. HTTP Status: ${response.status}`);
-				}
-			} catch (error) {
-				console.error(`Error fetching status for submission ID ${submission.id}:`, error.message);
+			// Store the result, write it to the operator's sheet and close finished checks
+			await applyCoverageResult(check, result);
+			outcome.processed++;
+		} catch (error: any) {
+			outcome.errors++;
+			if (error instanceof SheetRowNotFoundError) {
+				// Reported rather than written to a guessed row, the check stays
+				// unfinished so the result is written once the row exists
+				console.error(`Coverage result of submission ${check.submission_id} not written:`, error.message);
+				continue;
 			}
+			console.error(`Error fetching status for submission ID ${check.submission_id}:`, error.message);
 		}
-	} catch (error) {
-		console.error('Error in cron job:', error.message);
 	}
+
+	return outcome;
 }
 
-cron.schedule('*/5 * * * *', runCronJob); // Run every 5 minutes
-// runCronJob(); // Uncomment this line to run the cron job immediately
\ No newline at end of file
+export const checkCoverageStatusJob: Job = {
+	name: 'check-coverage-status',
+	schedule: '*/15 * * * *', // Run every 15 minutes
+	description: 'Polls coverage checkers for results the webhook has not delivered',
+	run: runCronJob,
+};
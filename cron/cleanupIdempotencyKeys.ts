@@ -0,0 +1,17 @@
+import { deleteExpiredIdempotencyKeys } from "../src/idempotency";
+import type { Job, JobOutcome } from "../src/jobs";
+
+async function runCronJob(): Promise<JobOutcome> {
+  const deleted = await deleteExpiredIdempotencyKeys();
+  if (deleted > 0) {
+    console.log(`Deleted ${deleted} expired idempotency keys`);
+  }
+  return { processed: deleted, errors: 0 };
+}
+
+export const cleanupIdempotencyKeysJob: Job = {
+  name: "cleanup-idempotency-keys",
+  schedule: "30 * * * *", // Run every hour
+  description: "Deletes idempotency keys past their retention period",
+  run: runCronJob,
+};
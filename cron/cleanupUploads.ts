@@ -0,0 +1,17 @@
+import type { Job, JobOutcome } from "../src/jobs";
+import { expireUploadSessions } from "../src/uploads";
+
+async function runCronJob(): Promise<JobOutcome> {
+  const expired = await expireUploadSessions();
+  if (expired > 0) {
+    console.log(`Expired ${expired} abandoned upload sessions`);
+  }
+  return { processed: expired, errors: 0 };
+}
+
+export const cleanupUploadsJob: Job = {
+  name: "cleanup-uploads",
+  schedule: "0 * * * *", // Run every hour
+  description: "Expires abandoned upload sessions and deletes their chunks",
+  run: runCronJob,
+};
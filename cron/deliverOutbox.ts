@@ -0,0 +1,17 @@
+import type { Job, JobOutcome } from "../src/jobs";
+import { deliverDueOutboxEvents } from "../src/outbox";
+
+async function runCronJob(): Promise<JobOutcome> {
+  const delivered = await deliverDueOutboxEvents();
+  if (delivered > 0) {
+    console.log(`Delivered ${delivered} outbox events`);
+  }
+  return { processed: delivered, errors: 0 };
+}
+
+export const deliverOutboxJob: Job = {
+  name: "deliver-outbox",
+  schedule: "* * * * *", // Run every minute
+  description: "Delivers due spreadsheet writes and coverage dispatches",
+  run: runCronJob,
+};
@@ -0,0 +1,17 @@
+import { registerJob } from "../src/jobs";
+import { checkCoverageStatusJob } from "./checkCoverageStatus";
+import { cleanupIdempotencyKeysJob } from "./cleanupIdempotencyKeys";
+import { cleanupUploadsJob } from "./cleanupUploads";
+import { deliverOutboxJob } from "./deliverOutbox";
+import { reconcileSpreadsheetsJob } from "./reconcileSpreadsheets";
+
+/**
+ * Adds the background jobs to the job registry. Register new jobs here.
+ */
+export function registerCronJobs() {
+  registerJob(checkCoverageStatusJob);
+  registerJob(cleanupIdempotencyKeysJob);
+  registerJob(cleanupUploadsJob);
+  registerJob(deliverOutboxJob);
+  registerJob(reconcileSpreadsheetsJob);
+}
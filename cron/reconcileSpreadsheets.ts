@@ -0,0 +1,40 @@
+import type { Job, JobOutcome } from "../src/jobs";
+import { resyncSpreadsheet } from "../src/reconcile";
+import { spreadsheetTargets } from "../src/operators/catalog";
+import { isSheetConfigured } from "../src/sheetSync";
+
+async function runCronJob(): Promise<JobOutcome> {
+  const outcome: JobOutcome = { processed: 0, errors: 0 };
+  for (const target of spreadsheetTargets()) {
+    if (!isSheetConfigured(target)) {
+      continue;
+    }
+    try {
+      const result = await resyncSpreadsheet(target);
+      outcome.processed += result.appended + result.recorded;
+      outcome.errors += result.failed.length;
+      if (result.appended > 0 || result.recorded > 0) {
+        console.log(
+          `Reconciled "${target}" spreadsheet: ${result.appended} appended, ${result.recorded} recorded`,
+        );
+      }
+      for (const failure of result.failed) {
+        console.error(
+          `Error appending submission ${failure.id} to the "${target}" spreadsheet:`,
+          failure.error,
+        );
+      }
+    } catch (error) {
+      outcome.errors++;
+      console.error(`Error reconciling the "${target}" spreadsheet:`, error);
+    }
+  }
+  return outcome;
+}
+
+export const reconcileSpreadsheetsJob: Job = {
+  name: "reconcile-spreadsheets",
+  schedule: "*/30 * * * *", // Run every 30 minutes
+  description: "Writes submissions the spreadsheets are missing",
+  run: runCronJob,
+};
@@ -0,0 +1,19 @@
+-- One row per submission and operator that has an automated coverage checker
+CREATE TABLE IF NOT EXISTS coverage_checks (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  submission_id VARCHAR(36) NOT NULL,
+  operator VARCHAR(20) NOT NULL,
+  external_id VARCHAR(64) DEFAULT NULL,
+  finished TINYINT(1) NOT NULL DEFAULT 0,
+  created_at DATETIME NOT NULL,
+  dispatched_at DATETIME DEFAULT NULL,
+  UNIQUE KEY uniq_submission_operator (submission_id, operator),
+  KEY idx_pending (external_id, finished),
+  FOREIGN KEY (submission_id) REFERENCES submissions(id)
+);
+
+-- Carry over the Fiberstar bot tickets tracked on the submissions table
+INSERT INTO coverage_checks (submission_id, operator, external_id, finished, created_at, dispatched_at)
+SELECT id, 'FS', checkCoverageBotId, checkCoverageBotFinish, timestamp, IF(checkCoverageBotId IS NULL, NULL, timestamp)
+FROM submissions
+WHERE JSON_CONTAINS(operators, '"FS"');
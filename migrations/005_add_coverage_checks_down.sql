@@ -0,0 +1,2 @@
+-- Drop coverage_checks table
+DROP TABLE IF EXISTS coverage_checks;
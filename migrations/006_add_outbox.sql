@@ -0,0 +1,22 @@
+-- Side effects of submissions (spreadsheet writes, bot dispatches) awaiting delivery
+CREATE TABLE IF NOT EXISTS outbox (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  submission_id VARCHAR(36) NOT NULL,
+  kind VARCHAR(50) NOT NULL,
+  payload JSON NOT NULL,
+  status ENUM('pending', 'delivered', 'dead') NOT NULL DEFAULT 'pending',
+  attempts INT NOT NULL DEFAULT 0,
+  last_error TEXT NULL,
+  next_attempt_at DATETIME NOT NULL,
+  created_at DATETIME NOT NULL,
+  delivered_at DATETIME DEFAULT NULL,
+  KEY idx_due (status, next_attempt_at),
+  KEY idx_submission (submission_id),
+  FOREIGN KEY (submission_id) REFERENCES submissions(id)
+);
+
+-- Coverage checks that were left for the check coverage bot cron job
+INSERT INTO outbox (submission_id, kind, payload, status, attempts, next_attempt_at, created_at)
+SELECT submission_id, 'coverage.dispatch', JSON_OBJECT('operator', operator), 'pending', 0, UTC_TIMESTAMP(), UTC_TIMESTAMP()
+FROM coverage_checks
+WHERE external_id IS NULL OR external_id = '';
@@ -0,0 +1,9 @@
+-- Client-generated keys that make retried form submissions return the original submission
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  idempotency_key VARCHAR(100) PRIMARY KEY,
+  request_hash CHAR(64) NOT NULL,
+  submission_id VARCHAR(36) NOT NULL,
+  submitted_at VARCHAR(30) NOT NULL,
+  status ENUM('in_progress', 'completed') NOT NULL DEFAULT 'in_progress',
+  created_at DATETIME NOT NULL
+);
@@ -0,0 +1,18 @@
+-- Earlier submission a duplicate lead was merged into
+ALTER TABLE submissions ADD COLUMN duplicateOfId VARCHAR(36) DEFAULT NULL;
+
+-- Suspected duplicate leads found at submit time, pending admin review
+CREATE TABLE IF NOT EXISTS submission_duplicates (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  submission_id VARCHAR(36) NOT NULL,
+  duplicate_of_id VARCHAR(36) NOT NULL,
+  distance_meters INT DEFAULT NULL,
+  same_home_no TINYINT(1) NOT NULL DEFAULT 0,
+  status ENUM('suspected', 'merged', 'dismissed') NOT NULL DEFAULT 'suspected',
+  detected_at DATETIME NOT NULL,
+  resolved_at DATETIME DEFAULT NULL,
+  UNIQUE KEY uniq_pair (submission_id, duplicate_of_id),
+  KEY idx_status (status),
+  FOREIGN KEY (submission_id) REFERENCES submissions(id),
+  FOREIGN KEY (duplicate_of_id) REFERENCES submissions(id)
+);
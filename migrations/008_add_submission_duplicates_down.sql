@@ -0,0 +1,3 @@
+-- Drop submission_duplicates table and duplicateOfId column
+DROP TABLE IF EXISTS submission_duplicates;
+ALTER TABLE submissions DROP COLUMN duplicateOfId;
@@ -0,0 +1,16 @@
+-- Cancelled submissions are kept for history but no longer checked
+ALTER TABLE submissions ADD COLUMN cancelledAt DATETIME DEFAULT NULL;
+ALTER TABLE submissions ADD COLUMN cancelReason TEXT NULL;
+
+-- Field-level change history of submissions
+CREATE TABLE IF NOT EXISTS submission_revisions (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  submission_id VARCHAR(36) NOT NULL,
+  field VARCHAR(50) NOT NULL,
+  old_value TEXT NULL,
+  new_value TEXT NULL,
+  changed_by VARCHAR(255) NOT NULL,
+  changed_at DATETIME NOT NULL,
+  KEY idx_submission (submission_id, changed_at),
+  FOREIGN KEY (submission_id) REFERENCES submissions(id)
+);
@@ -0,0 +1,4 @@
+-- Drop submission_revisions table and cancellation columns
+DROP TABLE IF EXISTS submission_revisions;
+ALTER TABLE submissions DROP COLUMN cancelReason;
+ALTER TABLE submissions DROP COLUMN cancelledAt;
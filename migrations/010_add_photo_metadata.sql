@@ -0,0 +1,18 @@
+-- Sniffed media type, EXIF data and thumbnail of each building photo
+ALTER TABLE building_photos ADD COLUMN media_type VARCHAR(50) DEFAULT NULL;
+ALTER TABLE building_photos ADD COLUMN thumbnail_filename VARCHAR(255) DEFAULT NULL;
+ALTER TABLE building_photos ADD COLUMN taken_at DATETIME DEFAULT NULL;
+ALTER TABLE building_photos ADD COLUMN latitude DECIMAL(10, 7) DEFAULT NULL;
+ALTER TABLE building_photos ADD COLUMN longitude DECIMAL(10, 7) DEFAULT NULL;
+
+-- Issues found on a submission that need an admin's attention
+CREATE TABLE IF NOT EXISTS submission_flags (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  submission_id VARCHAR(36) NOT NULL,
+  photo_filename VARCHAR(255) DEFAULT NULL,
+  kind VARCHAR(50) NOT NULL,
+  detail TEXT NULL,
+  created_at DATETIME NOT NULL,
+  KEY idx_submission (submission_id),
+  FOREIGN KEY (submission_id) REFERENCES submissions(id)
+);
@@ -0,0 +1,7 @@
+-- Drop submission_flags table and photo metadata columns
+DROP TABLE IF EXISTS submission_flags;
+ALTER TABLE building_photos DROP COLUMN longitude;
+ALTER TABLE building_photos DROP COLUMN latitude;
+ALTER TABLE building_photos DROP COLUMN taken_at;
+ALTER TABLE building_photos DROP COLUMN thumbnail_filename;
+ALTER TABLE building_photos DROP COLUMN media_type;
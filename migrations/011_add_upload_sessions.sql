@@ -0,0 +1,18 @@
+-- Resumable chunked uploads, referenced from the submit form once completed
+CREATE TABLE IF NOT EXISTS upload_sessions (
+  id VARCHAR(36) PRIMARY KEY,
+  original_filename VARCHAR(255) NOT NULL,
+  size BIGINT NOT NULL,
+  received BIGINT NOT NULL DEFAULT 0,
+  status ENUM('uploading', 'completed', 'attached', 'expired') NOT NULL DEFAULT 'uploading',
+  media_type VARCHAR(50) DEFAULT NULL,
+  filename VARCHAR(255) DEFAULT NULL,
+  thumbnail_filename VARCHAR(255) DEFAULT NULL,
+  taken_at DATETIME DEFAULT NULL,
+  latitude DECIMAL(10, 7) DEFAULT NULL,
+  longitude DECIMAL(10, 7) DEFAULT NULL,
+  submission_id VARCHAR(36) DEFAULT NULL,
+  created_at DATETIME NOT NULL,
+  expires_at DATETIME NOT NULL,
+  KEY idx_expiry (status, expires_at)
+);
@@ -0,0 +1,10 @@
+-- Row of each submission in the Google Sheets it was written to, so updates
+-- don't rescan the sheet
+CREATE TABLE IF NOT EXISTS sheet_rows (
+  spreadsheet_id VARCHAR(100) NOT NULL,
+  sheet_name VARCHAR(100) NOT NULL,
+  submission_id VARCHAR(36) NOT NULL,
+  sheet_row INT NOT NULL,
+  updated_at DATETIME NOT NULL,
+  PRIMARY KEY (spreadsheet_id, sheet_name, submission_id)
+);
@@ -0,0 +1,2 @@
+-- Drop sheet_rows table
+DROP TABLE IF EXISTS sheet_rows;
@@ -0,0 +1,31 @@
+-- Latest outcome reported by each operator's coverage checker
+CREATE TABLE IF NOT EXISTS coverage_results (
+  submission_id VARCHAR(36) NOT NULL,
+  operator VARCHAR(20) NOT NULL,
+  status ENUM('covered', 'not_covered') NOT NULL,
+  homepassed_id VARCHAR(100) DEFAULT NULL,
+  operator_remarks TEXT NULL,
+  ticket_closed_date VARCHAR(50) DEFAULT NULL,
+  finished TINYINT(1) NOT NULL DEFAULT 0,
+  reported_at DATETIME NOT NULL,
+  updated_at DATETIME NOT NULL,
+  PRIMARY KEY (submission_id, operator),
+  KEY idx_status (status),
+  FOREIGN KEY (submission_id) REFERENCES submissions(id)
+);
+
+-- Every change of a coverage result, oldest first
+CREATE TABLE IF NOT EXISTS coverage_result_transitions (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  submission_id VARCHAR(36) NOT NULL,
+  operator VARCHAR(20) NOT NULL,
+  from_status ENUM('covered', 'not_covered') DEFAULT NULL,
+  to_status ENUM('covered', 'not_covered') NOT NULL,
+  homepassed_id VARCHAR(100) DEFAULT NULL,
+  operator_remarks TEXT NULL,
+  ticket_closed_date VARCHAR(50) DEFAULT NULL,
+  finished TINYINT(1) NOT NULL DEFAULT 0,
+  changed_at DATETIME NOT NULL,
+  KEY idx_submission (submission_id, changed_at),
+  FOREIGN KEY (submission_id) REFERENCES submissions(id)
+);
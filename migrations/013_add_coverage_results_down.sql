@@ -0,0 +1,3 @@
+-- Drop coverage result tables
+DROP TABLE IF EXISTS coverage_result_transitions;
+DROP TABLE IF EXISTS coverage_results;
@@ -0,0 +1,9 @@
+-- Last time the operator reported on a check, by callback or by polling
+ALTER TABLE coverage_checks ADD COLUMN last_checked_at DATETIME DEFAULT NULL;
+
+-- Nonces of accepted coverage bot callbacks, kept to reject replays
+CREATE TABLE IF NOT EXISTS webhook_nonces (
+  nonce VARCHAR(100) PRIMARY KEY,
+  received_at DATETIME NOT NULL,
+  KEY idx_received (received_at)
+);
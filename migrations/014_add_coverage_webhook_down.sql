@@ -0,0 +1,3 @@
+-- Drop webhook_nonces table and last_checked_at column
+DROP TABLE IF EXISTS webhook_nonces;
+ALTER TABLE coverage_checks DROP COLUMN last_checked_at;
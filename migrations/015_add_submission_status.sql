@@ -0,0 +1,50 @@
+-- Lifecycle status of each submission, see src/lifecycle.ts
+ALTER TABLE submissions ADD COLUMN status ENUM('received', 'dispatched', 'awaiting_operator', 'covered', 'not_covered', 'failed', 'cancelled') NOT NULL DEFAULT 'received';
+ALTER TABLE submissions ADD INDEX idx_status (status);
+
+-- Every status change of a submission and why it happened
+CREATE TABLE IF NOT EXISTS submission_transitions (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  submission_id VARCHAR(36) NOT NULL,
+  from_status VARCHAR(20) DEFAULT NULL,
+  to_status VARCHAR(20) NOT NULL,
+  reason TEXT NULL,
+  created_at DATETIME NOT NULL,
+  KEY idx_submission (submission_id, created_at),
+  FOREIGN KEY (submission_id) REFERENCES submissions(id)
+);
+
+-- Derive the status of existing submissions from their coverage checks.
+-- Checks finished before results were stored stay dispatched.
+UPDATE submissions s SET s.status = 'dispatched'
+WHERE EXISTS (
+  SELECT 1 FROM coverage_checks cc WHERE cc.submission_id = s.id AND cc.external_id IS NOT NULL
+);
+
+UPDATE submissions s SET s.status = 'awaiting_operator'
+WHERE EXISTS (SELECT 1 FROM coverage_results cr WHERE cr.submission_id = s.id);
+
+UPDATE submissions s
+SET s.status = IF(
+  EXISTS (SELECT 1 FROM coverage_results cr WHERE cr.submission_id = s.id AND cr.status = 'covered'),
+  'covered',
+  'not_covered'
+)
+WHERE EXISTS (SELECT 1 FROM coverage_results cr WHERE cr.submission_id = s.id)
+AND NOT EXISTS (
+  SELECT 1 FROM coverage_checks cc
+  LEFT JOIN coverage_results cr ON cr.submission_id = cc.submission_id AND cr.operator = cc.operator
+  WHERE cc.submission_id = s.id AND (cr.status IS NULL OR cr.finished = 0)
+);
+
+UPDATE submissions s SET s.status = 'failed'
+WHERE s.status = 'received' AND EXISTS (
+  SELECT 1 FROM outbox o WHERE o.submission_id = s.id AND o.kind = 'coverage.dispatch' AND o.status = 'dead'
+);
+
+UPDATE submissions SET status = 'cancelled'
+WHERE cancelledAt IS NOT NULL OR duplicateOfId IS NOT NULL;
+
+INSERT INTO submission_transitions (submission_id, from_status, to_status, reason, created_at)
+SELECT id, NULL, status, 'Derived from existing data', UTC_TIMESTAMP()
+FROM submissions;
@@ -0,0 +1,4 @@
+-- Drop submission_transitions table and status column
+DROP TABLE IF EXISTS submission_transitions;
+ALTER TABLE submissions DROP INDEX idx_status;
+ALTER TABLE submissions DROP COLUMN status;
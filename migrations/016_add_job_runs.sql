@@ -0,0 +1,13 @@
+-- History of background job runs, see src/jobs.ts
+CREATE TABLE IF NOT EXISTS job_runs (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  job_name VARCHAR(50) NOT NULL,
+  job_trigger ENUM('schedule', 'manual') NOT NULL,
+  status ENUM('running', 'succeeded', 'failed') NOT NULL,
+  started_at DATETIME NOT NULL,
+  finished_at DATETIME DEFAULT NULL,
+  items_processed INT DEFAULT NULL,
+  error_count INT DEFAULT NULL,
+  error TEXT NULL,
+  KEY idx_job (job_name, id)
+);
@@ -0,0 +1,18 @@
+-- Submission coordinates as points (x = longitude, y = latitude), for map
+-- and nearby lookups. Submissions with unparseable coordinates have no row.
+CREATE TABLE IF NOT EXISTS submission_locations (
+  submission_id VARCHAR(36) NOT NULL PRIMARY KEY,
+  location POINT NOT NULL SRID 0,
+  SPATIAL INDEX idx_location (location),
+  FOREIGN KEY (submission_id) REFERENCES submissions(id)
+);
+
+INSERT INTO submission_locations (submission_id, location)
+SELECT id, POINT(
+  CAST(TRIM(SUBSTRING_INDEX(coordinates, ',', -1)) AS DECIMAL(10, 7)),
+  CAST(TRIM(SUBSTRING_INDEX(coordinates, ',', 1)) AS DECIMAL(10, 7))
+)
+FROM submissions
+WHERE coordinates REGEXP '^-?[0-9]+(\\.[0-9]+)?, *-?[0-9]+(\\.[0-9]+)?$'
+  AND CAST(TRIM(SUBSTRING_INDEX(coordinates, ',', 1)) AS DECIMAL(10, 7)) BETWEEN -90 AND 90
+  AND CAST(TRIM(SUBSTRING_INDEX(coordinates, ',', -1)) AS DECIMAL(10, 7)) BETWEEN -180 AND 180;
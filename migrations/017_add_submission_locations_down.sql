@@ -0,0 +1,2 @@
+-- Drop submission_locations table
+DROP TABLE IF EXISTS submission_locations;
@@ -0,0 +1,19 @@
+-- Salesmen are deactivated instead of deleted, and submissions keep the
+-- employee ID of their salesman so renames don't orphan them
+ALTER TABLE salesman ADD COLUMN active TINYINT(1) NOT NULL DEFAULT 1;
+ALTER TABLE salesman ADD COLUMN deactivatedAt DATETIME DEFAULT NULL;
+ALTER TABLE salesman ADD KEY idx_employee_id (employeeId);
+
+-- The seeded salesmen carry their employee ID in their name, e.g.
+-- "Budiman Silalahi - 0201005" or "Customer Service Bali  - CSBALI"
+UPDATE salesman SET employeeId = TRIM(SUBSTRING_INDEX(name, '-', -1))
+WHERE employeeId = '' AND name REGEXP '- *[[:alnum:]]+$'
+  AND CHAR_LENGTH(TRIM(SUBSTRING_INDEX(name, '-', -1))) <= 10;
+
+ALTER TABLE submissions ADD COLUMN salesmanEmployeeId VARCHAR(10) DEFAULT NULL;
+ALTER TABLE submissions ADD KEY idx_salesman_employee_id (salesmanEmployeeId);
+
+UPDATE submissions s
+JOIN salesman sm ON sm.name = s.salesmanName
+SET s.salesmanEmployeeId = sm.employeeId
+WHERE sm.employeeId <> '';
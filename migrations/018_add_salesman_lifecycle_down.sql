@@ -0,0 +1,6 @@
+-- Remove salesman deactivation and the salesman reference of submissions
+ALTER TABLE submissions DROP KEY idx_salesman_employee_id;
+ALTER TABLE submissions DROP COLUMN salesmanEmployeeId;
+ALTER TABLE salesman DROP KEY idx_employee_id;
+ALTER TABLE salesman DROP COLUMN deactivatedAt;
+ALTER TABLE salesman DROP COLUMN active;
@@ -0,0 +1,53 @@
+-- Branches the salesmen belong to. The code is the salesman's branchId.
+CREATE TABLE IF NOT EXISTS branches (
+  code VARCHAR(4) NOT NULL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  timezone VARCHAR(50) NOT NULL DEFAULT 'Asia/Jakarta',
+  spreadsheet_targets JSON NOT NULL,
+  operators JSON NOT NULL,
+  active TINYINT(1) NOT NULL DEFAULT 1,
+  created_at DATETIME NOT NULL,
+  updated_at DATETIME NOT NULL
+);
+
+-- The branches the spreadsheet writer knew about. Any other branchId was
+-- written as Medan, so those keep that name until an admin renames them.
+INSERT INTO branches (code, name, timezone, spreadsheet_targets, operators, created_at, updated_at) VALUES
+  ('020', 'Medan', 'Asia/Jakarta', '["all", "fs"]', '[]', UTC_TIMESTAMP(), UTC_TIMESTAMP()),
+  ('025', 'Nusa Id', 'Asia/Jakarta', '["all", "fs"]', '[]', UTC_TIMESTAMP(), UTC_TIMESTAMP()),
+  ('027', 'Binjai', 'Asia/Jakarta', '["all", "fs"]', '[]', UTC_TIMESTAMP(), UTC_TIMESTAMP()),
+  ('028', 'Nusafiber Selecta', 'Asia/Jakarta', '["all", "fs"]', '[]', UTC_TIMESTAMP(), UTC_TIMESTAMP()),
+  ('029', 'Tj. Morawa', 'Asia/Jakarta', '["all", "fs"]', '[]', UTC_TIMESTAMP(), UTC_TIMESTAMP()),
+  ('062', 'Bali', 'Asia/Makassar', '["all", "fs"]', '[]', UTC_TIMESTAMP(), UTC_TIMESTAMP());
+
+INSERT INTO branches (code, name, timezone, spreadsheet_targets, operators, created_at, updated_at)
+SELECT DISTINCT sm.branchId, 'Medan', 'Asia/Jakarta', '["all", "fs"]', '[]', UTC_TIMESTAMP(), UTC_TIMESTAMP()
+FROM salesman sm
+WHERE sm.branchId IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM branches b WHERE b.code = sm.branchId);
+
+-- Every branch keeps offering the operators submitted so far
+UPDATE branches SET operators = (
+  SELECT JSON_ARRAYAGG(known.operator) FROM (
+    SELECT 'FS' AS operator
+    UNION
+    SELECT jt.operator
+    FROM submissions s,
+      JSON_TABLE(s.operators, '$[*]' COLUMNS (operator VARCHAR(20) PATH '$')) jt
+  ) known
+);
+
+ALTER TABLE salesman ADD CONSTRAINT fk_salesman_branch FOREIGN KEY (branchId) REFERENCES branches(code);
+
+-- The branch a submission was made for, as it was at submit time
+ALTER TABLE submissions ADD COLUMN branchCode VARCHAR(4) DEFAULT NULL;
+ALTER TABLE submissions ADD COLUMN branchName VARCHAR(100) DEFAULT NULL;
+ALTER TABLE submissions ADD COLUMN branchTimezone VARCHAR(50) DEFAULT NULL;
+ALTER TABLE submissions ADD COLUMN spreadsheetTargets JSON DEFAULT NULL;
+ALTER TABLE submissions ADD KEY idx_branch_code (branchCode);
+
+UPDATE submissions s
+JOIN salesman sm ON sm.employeeId = s.salesmanEmployeeId
+JOIN branches b ON b.code = sm.branchId
+SET s.branchCode = b.code, s.branchName = b.name, s.branchTimezone = b.timezone,
+  s.spreadsheetTargets = b.spreadsheet_targets;
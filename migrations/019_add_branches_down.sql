@@ -0,0 +1,8 @@
+-- Remove branches and the branch snapshot of submissions
+ALTER TABLE submissions DROP KEY idx_branch_code;
+ALTER TABLE submissions DROP COLUMN spreadsheetTargets;
+ALTER TABLE submissions DROP COLUMN branchTimezone;
+ALTER TABLE submissions DROP COLUMN branchName;
+ALTER TABLE submissions DROP COLUMN branchCode;
+ALTER TABLE salesman DROP FOREIGN KEY fk_salesman_branch;
+DROP TABLE IF EXISTS branches;
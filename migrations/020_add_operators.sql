@@ -0,0 +1,35 @@
+-- Operators salesmen can check coverage with, replacing the KNOWN_OPERATORS
+-- setting and the operator list kept on each branch
+CREATE TABLE IF NOT EXISTS operators (
+  code VARCHAR(20) NOT NULL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  branches JSON NOT NULL,
+  spreadsheet_target VARCHAR(10) DEFAULT NULL,
+  automated_check TINYINT(1) NOT NULL DEFAULT 0,
+  active TINYINT(1) NOT NULL DEFAULT 1,
+  created_at DATETIME NOT NULL,
+  updated_at DATETIME NOT NULL
+);
+
+-- Every operator a branch offered, sold by the same branches. FS keeps its
+-- own spreadsheet and coverage bot.
+INSERT INTO operators (code, name, branches, spreadsheet_target, automated_check, created_at, updated_at)
+SELECT known.code,
+  IF(known.code = 'FS', 'Fiberstar', known.code),
+  COALESCE(
+    (SELECT JSON_ARRAYAGG(b.code) FROM branches b WHERE JSON_CONTAINS(b.operators, JSON_QUOTE(known.code))),
+    JSON_ARRAY()
+  ),
+  IF(known.code = 'FS', 'fs', NULL),
+  known.code = 'FS',
+  UTC_TIMESTAMP(),
+  UTC_TIMESTAMP()
+FROM (
+  SELECT 'FS' AS code
+  UNION
+  SELECT jt.code
+  FROM branches b,
+    JSON_TABLE(b.operators, '$[*]' COLUMNS (code VARCHAR(20) PATH '$')) jt
+) known;
+
+ALTER TABLE branches DROP COLUMN operators;
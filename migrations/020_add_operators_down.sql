@@ -0,0 +1,10 @@
+-- Move the operators back onto the branches that sell them
+ALTER TABLE branches ADD COLUMN operators JSON DEFAULT NULL;
+
+UPDATE branches b SET operators = COALESCE(
+  (SELECT JSON_ARRAYAGG(o.code) FROM operators o WHERE JSON_CONTAINS(o.branches, JSON_QUOTE(b.code))),
+  JSON_ARRAY()
+);
+
+ALTER TABLE branches MODIFY COLUMN operators JSON NOT NULL;
+DROP TABLE IF EXISTS operators;
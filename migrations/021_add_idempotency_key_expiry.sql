@@ -0,0 +1,2 @@
+-- Expired and stale keys are looked up by age
+ALTER TABLE idempotency_keys ADD KEY idx_created_at (created_at);
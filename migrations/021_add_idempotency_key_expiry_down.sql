@@ -0,0 +1,2 @@
+-- Remove the idempotency key age index
+ALTER TABLE idempotency_keys DROP KEY idx_created_at;
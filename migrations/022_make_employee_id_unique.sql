@@ -0,0 +1,38 @@
+-- The employee ID identifies a salesman, and submissions already point to
+-- salesmen by it. Salesmen sharing an ID can't be told apart, so the
+-- migration stops with "Duplicate entry '<employee ID>'" until each of them
+-- has an ID of their own. README.md has a query listing them all.
+CREATE TEMPORARY TABLE salesman_employee_ids (
+  employeeId VARCHAR(10) NOT NULL,
+  UNIQUE KEY shared_employee_id (employeeId)
+);
+INSERT INTO salesman_employee_ids (employeeId)
+SELECT employeeId FROM salesman WHERE employeeId <> '';
+DROP TEMPORARY TABLE salesman_employee_ids;
+
+-- Databases migrated before 018 backfilled letter IDs such as CSBALI are
+-- caught up first, unless another salesman already has the ID
+UPDATE salesman SET employeeId = TRIM(SUBSTRING_INDEX(name, '-', -1))
+WHERE employeeId = '' AND name REGEXP '- *[[:alnum:]]+$'
+  AND CHAR_LENGTH(TRIM(SUBSTRING_INDEX(name, '-', -1))) <= 10
+  AND TRIM(SUBSTRING_INDEX(name, '-', -1)) NOT IN (
+    SELECT employeeId FROM (SELECT employeeId FROM salesman) taken
+  );
+
+-- Salesmen still without an ID, or backfilled with the same one as an
+-- earlier salesman, get a placeholder ID from their row ID. No submission
+-- points to them by ID yet: they are linked by name below.
+UPDATE salesman sm
+JOIN (SELECT employeeId, MIN(id) AS firstId FROM salesman GROUP BY employeeId) first
+  ON first.employeeId = sm.employeeId
+SET sm.employeeId = CONCAT('X', sm.id)
+WHERE sm.employeeId = '' OR sm.id <> first.firstId;
+
+UPDATE submissions s
+JOIN salesman sm ON sm.name = s.salesmanName
+SET s.salesmanEmployeeId = sm.employeeId
+WHERE s.salesmanEmployeeId IS NULL;
+
+ALTER TABLE salesman DROP KEY idx_employee_id;
+ALTER TABLE salesman MODIFY COLUMN employeeId VARCHAR(10) NOT NULL;
+ALTER TABLE salesman ADD UNIQUE KEY uniq_employee_id (employeeId);
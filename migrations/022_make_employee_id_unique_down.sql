@@ -0,0 +1,3 @@
+-- Allow salesmen to share an employee ID again
+ALTER TABLE salesman DROP KEY uniq_employee_id;
+ALTER TABLE salesman ADD KEY idx_employee_id (employeeId);
@@ -0,0 +1,2 @@
+-- Duplicate checks, date filters and reports look submissions up by time
+ALTER TABLE submissions ADD KEY idx_timestamp (timestamp);
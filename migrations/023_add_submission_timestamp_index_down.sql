@@ -0,0 +1,2 @@
+-- Remove the submission time index
+ALTER TABLE submissions DROP KEY idx_timestamp;
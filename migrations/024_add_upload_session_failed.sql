@@ -0,0 +1,2 @@
+-- Uploads whose chunks could not be assembled into a file
+ALTER TABLE upload_sessions MODIFY status ENUM('uploading', 'completed', 'attached', 'expired', 'failed') NOT NULL DEFAULT 'uploading';
@@ -0,0 +1,3 @@
+-- Put failed uploads back to expired before dropping the status
+UPDATE upload_sessions SET status = 'expired' WHERE status = 'failed';
+ALTER TABLE upload_sessions MODIFY status ENUM('uploading', 'completed', 'attached', 'expired') NOT NULL DEFAULT 'uploading';
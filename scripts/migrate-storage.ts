@@ -0,0 +1,49 @@
+import { createStorage } from '../src/storage'
+
+/**
+ * Copies every uploaded file from one storage backend to another.
+ *
+ * Usage: bun run storage:migrate <from> <to> [--delete]
+ * e.g.   bun run storage:migrate local s3
+ *
+ * Files already present in the target are skipped, so the command can be
+ * re-run after an interruption. With --delete, each file is removed from the
+ * source once it has been copied.
+ */
+async function migrateStorage(from: string, to: string, deleteSource: boolean) {
+  const source = createStorage(from)
+  const target = createStorage(to)
+
+  let copied = 0
+  let skipped = 0
+  for await (const key of source.list()) {
+    if (await target.exists(key)) {
+      skipped++
+    } else {
+      const file = await source.open(key)
+      if (!file) {
+        continue
+      }
+      await target.put(key, new Uint8Array(await file.arrayBuffer()), file.type || undefined)
+      copied++
+      console.log(`Copied ${key}`)
+    }
+
+    if (deleteSource) {
+      await source.delete(key)
+    }
+  }
+
+  console.log(`Copied ${copied} files from ${from} to ${to}, ${skipped} already present`)
+}
+
+const [from, to] = process.argv.slice(2).filter((arg) => !arg.startsWith('--'))
+if (!from || !to || from === to) {
+  console.error('Usage: bun run storage:migrate <local|s3> <local|s3> [--delete]')
+  process.exit(1)
+}
+
+migrateStorage(from, to, process.argv.includes('--delete')).catch((err) => {
+  console.error('Storage migration failed:', err)
+  process.exit(1)
+})
@@ -0,0 +1,176 @@
+import type { RowDataPacket } from "mysql2/promise";
+import { csvCell } from "./csv";
+import { type DateRange, formatMySQLDateTime } from "./dates";
+import { pool } from "./db";
+
+const ANALYTICS_DIMENSIONS = [
+  "province",
+  "city",
+  "district",
+  "village",
+  "operator",
+  "salesman",
+  "branch",
+] as const;
+
+export type AnalyticsDimension = (typeof ANALYTICS_DIMENSIONS)[number];
+
+/**
+ * Coverage figures of one group. Checks are per submission and selected
+ * operator; `coveredRatio` only counts answered checks.
+ */
+export type CoverageAnalyticsRow = {
+  group: string;
+  submissions: number;
+  checks: number;
+  covered: number;
+  notCovered: number;
+  pending: number;
+  coveredRatio: number | null;
+  medianAnswerMinutes: number | null;
+};
+
+// SQL for the group of a submission and operator pair, given the
+// submission (s), its salesman (sm), postal code (pc) and operator (o)
+const GROUP_EXPRESSIONS: Record<AnalyticsDimension, string> = {
+  province: "COALESCE(pc.province, 'Unknown')",
+  city: "COALESCE(pc.city, 'Unknown')",
+  district: "COALESCE(pc.district, 'Unknown')",
+  // Village names repeat across districts
+  village:
+    "CASE WHEN pc.village IS NULL THEN 'Unknown' ELSE CONCAT(pc.village, ', ', pc.district) END",
+  operator: "o.code",
+  // Renamed salesmen are reported under their current name
+  salesman: "COALESCE(sm.name, s.salesmanName)",
+  branch: "COALESCE(NULLIF(s.branchName, ''), 'Unknown')",
+};
+
+/**
+ * Aggregates the coverage of the submissions made in a date range by area,
+ * operator, salesman or branch. Every operator a submission selected is a
+ * check, whether it is checked automatically or by hand. Areas come from
+ * the postal code the submission's village was picked from; cancelled
+ * submissions are left out.
+ */
+export async function buildCoverageAnalytics(
+  dimension: AnalyticsDimension,
+  range: DateRange,
+  operator?: string,
+): Promise<CoverageAnalyticsRow[]> {
+  const conditions = ["s.status <> 'cancelled'"];
+  const params: string[] = [];
+  if (range.from) {
+    conditions.push("s.timestamp >= ?");
+    params.push(formatMySQLDateTime(range.from));
+  }
+  if (range.to) {
+    conditions.push("s.timestamp < ?");
+    params.push(formatMySQLDateTime(range.to));
+  }
+  if (operator) {
+    conditions.push("o.code = ?");
+    params.push(operator);
+  } else if (dimension === "operator") {
+    conditions.push("o.code IS NOT NULL");
+  }
+
+  // The village field holds "postal code, village, district, city, province"
+  // as picked from postal_codes. The median answer time takes the middle
+  // one or two answered checks of each group.
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `WITH checks AS (
+       SELECT s.id, ${GROUP_EXPRESSIONS[dimension]} AS group_key,
+         o.code AS operator, cr.status AS coverage_status,
+         CASE WHEN cr.status IS NOT NULL AND cc.dispatched_at IS NOT NULL
+           THEN TIMESTAMPDIFF(SECOND, cc.dispatched_at, cr.reported_at) / 60
+         END AS answer_minutes
+       FROM submissions s
+       LEFT JOIN operators o ON JSON_CONTAINS(s.operators, JSON_QUOTE(o.code))
+       LEFT JOIN salesman sm ON sm.employeeId = s.salesmanEmployeeId
+       LEFT JOIN postal_codes pc
+         ON pc.postal_code = SUBSTRING_INDEX(s.village, ', ', 1)
+         AND CONCAT_WS(', ', pc.postal_code, pc.village, pc.district, pc.city, pc.province) = s.village
+       LEFT JOIN coverage_checks cc
+         ON cc.submission_id = s.id AND cc.operator = o.code
+       LEFT JOIN coverage_results cr
+         ON cr.submission_id = s.id AND cr.operator = o.code
+       WHERE ${conditions.join(" AND ")}
+     ),
+     answers AS (
+       SELECT group_key, answer_minutes,
+         ROW_NUMBER() OVER (PARTITION BY group_key ORDER BY answer_minutes) AS position,
+         COUNT(*) OVER (PARTITION BY group_key) AS total
+       FROM checks WHERE answer_minutes IS NOT NULL
+     ),
+     medians AS (
+       SELECT group_key, AVG(answer_minutes) AS median_answer_minutes
+       FROM answers
+       WHERE position IN (FLOOR((total + 1) / 2), FLOOR(total / 2) + 1)
+       GROUP BY group_key
+     )
+     SELECT c.group_key, COUNT(DISTINCT c.id) AS submissions,
+       COUNT(c.operator) AS checks,
+       SUM(c.coverage_status = 'covered') AS covered,
+       SUM(c.coverage_status = 'not_covered') AS not_covered,
+       m.median_answer_minutes
+     FROM checks c
+     LEFT JOIN medians m ON m.group_key = c.group_key
+     GROUP BY c.group_key, m.median_answer_minutes
+     ORDER BY submissions DESC, c.group_key`,
+    params,
+  );
+
+  return rows.map((row) => {
+    const covered = Number(row.covered);
+    const notCovered = Number(row.not_covered);
+    const answered = covered + notCovered;
+    return {
+      group: String(row.group_key),
+      submissions: Number(row.submissions),
+      checks: Number(row.checks),
+      covered,
+      notCovered,
+      pending: Number(row.checks) - answered,
+      coveredRatio:
+        answered > 0 ? Math.round((covered / answered) * 10000) / 10000 : null,
+      medianAnswerMinutes:
+        row.median_answer_minutes === null
+          ? null
+          : Math.round(Number(row.median_answer_minutes) * 10) / 10,
+    };
+  });
+}
+
+/**
+ * Renders analytics rows as CSV, with the dimension as the first column
+ */
+export function coverageAnalyticsCsv(
+  dimension: AnalyticsDimension,
+  rows: CoverageAnalyticsRow[],
+): string {
+  const header = [
+    dimension,
+    "submissions",
+    "checks",
+    "covered",
+    "not_covered",
+    "pending",
+    "covered_ratio",
+    "median_answer_minutes",
+  ];
+  const lines = rows.map((row) =>
+    [
+      row.group,
+      row.submissions,
+      row.checks,
+      row.covered,
+      row.notCovered,
+      row.pending,
+      row.coveredRatio,
+      row.medianAnswerMinutes,
+    ]
+      .map(csvCell)
+      .join(","),
+  );
+  return [header.join(","), ...lines].join("\r\n") + "\r\n";
+}
@@ -0,0 +1,141 @@
+import type { RowDataPacket } from "mysql2/promise";
+import { formatMySQLDateTime } from "./dates";
+import { pool } from "./db";
+import type { SpreadsheetTarget } from "./sheetSync";
+
+/**
+ * A branch the salesmen belong to. Submissions snapshot its name, timezone
+ * and spreadsheet targets when they are made.
+ */
+export type Branch = {
+  code: string;
+  name: string;
+  // IANA timezone, e.g. Asia/Jakarta
+  timezone: string;
+  // Spreadsheets the branch's submissions are written to
+  spreadsheetTargets: SpreadsheetTarget[];
+  // Active operators the branch's salesmen can check coverage with, set
+  // on the operators
+  operators: string[];
+  active: boolean;
+};
+
+export type BranchFields = Omit<Branch, "code" | "active" | "operators">;
+
+function parseJsonList(value: unknown): string[] {
+  if (value === null) {
+    return [];
+  }
+  return typeof value === "string" ? JSON.parse(value) : (value as string[]);
+}
+
+const BRANCH_COLUMNS = `b.*, (
+  SELECT JSON_ARRAYAGG(o.code) FROM operators o
+  WHERE o.active = 1 AND JSON_CONTAINS(o.branches, JSON_QUOTE(b.code))
+) AS operators`;
+
+function toBranch(row: RowDataPacket): Branch {
+  return {
+    code: row.code,
+    name: row.name,
+    timezone: row.timezone,
+    spreadsheetTargets: parseJsonList(
+      row.spreadsheet_targets,
+    ) as SpreadsheetTarget[],
+    operators: parseJsonList(row.operators),
+    active: Boolean(row.active),
+  };
+}
+
+export async function listBranches(includeInactive = false) {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    `SELECT ${BRANCH_COLUMNS} FROM branches b
+     ${includeInactive ? "" : "WHERE b.active = 1"} ORDER BY b.name`,
+  );
+  return rows.map(toBranch);
+}
+
+export async function getBranch(code: string): Promise<Branch | null> {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    `SELECT ${BRANCH_COLUMNS} FROM branches b WHERE b.code = ?`,
+    [code],
+  );
+  return rows[0] ? toBranch(rows[0]) : null;
+}
+
+export type BranchChangeResult =
+  | { status: "not_found" }
+  | { status: "changed"; branch: Branch };
+
+export async function createBranch(
+  code: string,
+  fields: BranchFields,
+): Promise<{ status: "exists" } | { status: "created"; branch: Branch }> {
+  if (await getBranch(code)) {
+    return { status: "exists" };
+  }
+
+  const now = formatMySQLDateTime(new Date());
+  await pool.execute(
+    `INSERT INTO branches (code, name, timezone, spreadsheet_targets, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [
+      code,
+      fields.name,
+      fields.timezone,
+      JSON.stringify(fields.spreadsheetTargets),
+      now,
+      now,
+    ],
+  );
+  return {
+    status: "created",
+    branch: { code, ...fields, operators: [], active: true },
+  };
+}
+
+/**
+ * Changes a branch. Submissions already made keep the branch as it was.
+ */
+export async function updateBranch(
+  code: string,
+  fields: BranchFields,
+): Promise<BranchChangeResult> {
+  const current = await getBranch(code);
+  if (!current) {
+    return { status: "not_found" };
+  }
+
+  await pool.execute(
+    `UPDATE branches SET name = ?, timezone = ?, spreadsheet_targets = ?, updated_at = ?
+     WHERE code = ?`,
+    [
+      fields.name,
+      fields.timezone,
+      JSON.stringify(fields.spreadsheetTargets),
+      formatMySQLDateTime(new Date()),
+      code,
+    ],
+  );
+  return { status: "changed", branch: { ...current, ...fields } };
+}
+
+/**
+ * Closes a branch, or opens it again. Salesmen can't be added to a closed
+ * branch; the ones already in it keep working until they are moved.
+ */
+export async function setBranchActive(
+  code: string,
+  active: boolean,
+): Promise<BranchChangeResult> {
+  const current = await getBranch(code);
+  if (!current) {
+    return { status: "not_found" };
+  }
+
+  await pool.execute(
+    `UPDATE branches SET active = ?, updated_at = ? WHERE code = ?`,
+    [active ? 1 : 0, formatMySQLDateTime(new Date()), code],
+  );
+  return { status: "changed", branch: { ...current, active } };
+}
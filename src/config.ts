@@ -5,3 +5,43 @@ export const DB_HOST = process.env.DB_HOST || 'localhost'
 export const DB_USER = process.env.DB_USER || 'root'
 export const DB_PASSWORD = process.env.DB_PASSWORD || ''
 export const DB_NAME = process.env.DB_NAME || 'test'
+export const OUTBOX_MAX_ATTEMPTS = Number(process.env.OUTBOX_MAX_ATTEMPTS || 10)
+export const OUTBOX_BASE_DELAY_SECONDS = Number(process.env.OUTBOX_BASE_DELAY_SECONDS || 30)
+export const DUPLICATE_RADIUS_METERS = Number(process.env.DUPLICATE_RADIUS_METERS || 30)
+export const DUPLICATE_WINDOW_DAYS = Number(process.env.DUPLICATE_WINDOW_DAYS || 90)
+export const PHOTO_MAX_DISTANCE_METERS = Number(process.env.PHOTO_MAX_DISTANCE_METERS || 200)
+export const PHOTO_MAX_AGE_HOURS = Number(process.env.PHOTO_MAX_AGE_HOURS || 24)
+export const STORAGE_DRIVER = process.env.STORAGE_DRIVER || 'local'
+export const S3_BUCKET = process.env.S3_BUCKET || ''
+export const S3_ENDPOINT = process.env.S3_ENDPOINT || ''
+export const S3_REGION = process.env.S3_REGION || ''
+export const S3_ACCESS_KEY_ID = process.env.S3_ACCESS_KEY_ID || ''
+export const S3_SECRET_ACCESS_KEY = process.env.S3_SECRET_ACCESS_KEY || ''
+export const S3_PREFIX = process.env.S3_PREFIX || ''
+export const PHOTO_LINK_SECRET = process.env.PHOTO_LINK_SECRET || ''
+export const PHOTO_LINK_TTL_DAYS = Number(process.env.PHOTO_LINK_TTL_DAYS || 30)
+export const UPLOAD_MAX_SIZE_MB = Number(process.env.UPLOAD_MAX_SIZE_MB || 200)
+export const UPLOAD_SESSION_TTL_HOURS = Number(process.env.UPLOAD_SESSION_TTL_HOURS || 24)
+export const COVERAGE_BOT_WEBHOOK_SECRET = process.env.COVERAGE_BOT_WEBHOOK_SECRET || ''
+export const COVERAGE_BOT_WEBHOOK_TOLERANCE_SECONDS = Number(process.env.COVERAGE_BOT_WEBHOOK_TOLERANCE_SECONDS || 300)
+export const COVERAGE_POLL_FALLBACK_MINUTES = Number(process.env.COVERAGE_POLL_FALLBACK_MINUTES || 60)
+export const COVERAGE_BOT_TIMEOUT_MS = Number(process.env.COVERAGE_BOT_TIMEOUT_MS || 10000)
+export const COVERAGE_BOT_RETRIES = Number(process.env.COVERAGE_BOT_RETRIES || 2)
+export const COVERAGE_BOT_RETRY_BASE_DELAY_MS = Number(process.env.COVERAGE_BOT_RETRY_BASE_DELAY_MS || 500)
+export const COVERAGE_BOT_BREAKER_THRESHOLD = Number(process.env.COVERAGE_BOT_BREAKER_THRESHOLD || 5)
+export const COVERAGE_BOT_BREAKER_COOLDOWN_SECONDS = Number(process.env.COVERAGE_BOT_BREAKER_COOLDOWN_SECONDS || 60)
+export const COVERAGE_BOT_DRIVER = process.env.COVERAGE_BOT_DRIVER || 'http'
+export const SHEETS_DRIVER = process.env.SHEETS_DRIVER || 'google'
+export const NEARBY_DEFAULT_RADIUS_METERS = Number(process.env.NEARBY_DEFAULT_RADIUS_METERS || 200)
+export const NEARBY_MAX_RADIUS_METERS = Number(process.env.NEARBY_MAX_RADIUS_METERS || 2000)
+export const DEFAULT_TIMEZONE = process.env.DEFAULT_TIMEZONE || 'Asia/Jakarta'
+export const IDEMPOTENCY_IN_PROGRESS_TIMEOUT_MINUTES = Number(process.env.IDEMPOTENCY_IN_PROGRESS_TIMEOUT_MINUTES || 10)
+export const IDEMPOTENCY_KEY_TTL_HOURS = Number(process.env.IDEMPOTENCY_KEY_TTL_HOURS || 72)
+
+// Settings the API server can't run without. Cron jobs and scripts only
+// fail when they actually use one of them.
+export function checkServerConfig() {
+  if (!PHOTO_LINK_SECRET) {
+    throw new Error('PHOTO_LINK_SECRET must be set to sign photo links, e.g. to the output of `openssl rand -hex 32`')
+  }
+}
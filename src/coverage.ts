@@ -0,0 +1,377 @@
+import type { PoolConnection, RowDataPacket } from "mysql2/promise";
+import { formatMySQLDateTime, formatTimestamp } from "./dates";
+import { pool } from "./db";
+import {
+  InvalidTransitionError,
+  type SubmissionStatus,
+  transitionSubmission,
+} from "./lifecycle";
+import {
+  adaptersFor,
+  allOperatorAdapters,
+  getOperatorAdapter,
+} from "./operators";
+import { automatedOperatorCodes, getOperator } from "./operators/catalog";
+import type { CoverageResult } from "./operators/types";
+import { photoUrl } from "./photos";
+import { updateSheetRow } from "./sheetSync";
+
+export type CoverageStatus = "pending" | "covered" | "not_covered";
+
+export type CoverageSummary = {
+  operator: string;
+  status: CoverageStatus;
+  homepassedId: string | null;
+  operatorRemarks: string | null;
+  ticketClosedDate: string | null;
+  finished: boolean;
+  dispatchedAt: string | null;
+  updatedAt: string | null;
+};
+
+export type CoverageCheckRow = {
+  id: number;
+  submission_id: string;
+  operator: string;
+};
+
+/**
+ * Records a pending coverage check for every selected operator that is
+ * checked automatically and has an adapter. Runs inside the submission's
+ * transaction and returns the codes of the operators that will be checked.
+ */
+export async function createCoverageChecks(
+  connection: PoolConnection,
+  submissionId: string,
+  operators: string[],
+): Promise<string[]> {
+  const codes: string[] = [];
+  const automated = await automatedOperatorCodes(connection, operators);
+  for (const adapter of adaptersFor(automated)) {
+    await connection.execute(
+      `INSERT IGNORE INTO coverage_checks (submission_id, operator, created_at) VALUES (?, ?, ?)`,
+      [submissionId, adapter.code, formatMySQLDateTime(new Date())],
+    );
+    codes.push(adapter.code);
+  }
+  return codes;
+}
+
+/**
+ * Sends a submission's coverage check to the operator's checker and stores
+ * the returned ticket ID. Does nothing if the check was already dispatched;
+ * throws if the operator cannot be reached.
+ */
+export async function dispatchCoverageCheck(
+  submissionId: string,
+  operator: string,
+) {
+  const [checkRows] = await pool.execute<RowDataPacket[]>(
+    `SELECT id, external_id FROM coverage_checks WHERE submission_id = ? AND operator = ?`,
+    [submissionId, operator],
+  );
+  const check = checkRows[0];
+  if (!check) {
+    throw new Error(
+      `No ${operator} coverage check recorded for submission ${submissionId}`,
+    );
+  }
+  if (check.external_id) {
+    return;
+  }
+
+  const adapter = getOperatorAdapter(operator);
+  if (!adapter) {
+    throw new Error(`No coverage adapter registered for operator ${operator}`);
+  }
+
+  const [submissionRows] = await pool.execute<RowDataPacket[]>(
+    `SELECT id, customerName, customerAddress, customerHomeNo, village, coordinates, buildingType, remarks, status
+     FROM submissions WHERE id = ?`,
+    [submissionId],
+  );
+  const submission = submissionRows[0];
+  if (!submission) {
+    throw new Error(`Submission ${submissionId} not found`);
+  }
+  if (submission.status === "cancelled") {
+    return;
+  }
+
+  const [photoRows] = await pool.execute<RowDataPacket[]>(
+    `SELECT filename FROM building_photos WHERE submission_id = ?`,
+    [submissionId],
+  );
+
+  const externalId = await adapter.dispatch(
+    adapter.buildRequest({
+      submissionId,
+      customerName: submission.customerName,
+      customerAddress: submission.customerAddress,
+      customerHomeNo: submission.customerHomeNo,
+      village: submission.village,
+      coordinates: submission.coordinates,
+      buildingType: submission.buildingType,
+      remarks: submission.remarks,
+      photoUrls: photoRows.map((photo) =>
+        photoUrl(submissionId, photo.filename),
+      ),
+    }),
+  );
+
+  await pool.execute(
+    `UPDATE coverage_checks SET external_id = ?, dispatched_at = ? WHERE id = ?`,
+    [externalId, formatMySQLDateTime(new Date()), check.id],
+  );
+  await syncCoverageStatus(
+    submissionId,
+    `Sent to the ${operator} coverage checker`,
+  );
+}
+
+/**
+ * Moves a submission to the status its coverage checks add up to. Leaves
+ * it alone while nothing was sent, or if it can't move there, e.g. once
+ * cancelled.
+ */
+async function syncCoverageStatus(submissionId: string, reason: string) {
+  const [checkRows] = await pool.execute<RowDataPacket[]>(
+    `SELECT cc.external_id, cr.status, cr.finished
+     FROM coverage_checks cc
+     LEFT JOIN coverage_results cr
+       ON cr.submission_id = cc.submission_id AND cr.operator = cc.operator
+     WHERE cc.submission_id = ?`,
+    [submissionId],
+  );
+
+  let status: SubmissionStatus;
+  if (checkRows.length === 0) {
+    return;
+  } else if (checkRows.every((check) => check.status && check.finished)) {
+    status = checkRows.some((check) => check.status === "covered")
+      ? "covered"
+      : "not_covered";
+  } else if (checkRows.some((check) => check.status)) {
+    status = "awaiting_operator";
+  } else if (checkRows.some((check) => check.external_id)) {
+    status = "dispatched";
+  } else {
+    return;
+  }
+
+  try {
+    await transitionSubmission(submissionId, status, reason);
+  } catch (error) {
+    if (!(error instanceof InvalidTransitionError)) {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Stores an operator's result for a submission, logging a transition when
+ * anything changed. Returns whether it did.
+ */
+async function recordCoverageResult(
+  submissionId: string,
+  operator: string,
+  result: CoverageResult,
+): Promise<boolean> {
+  const status = result.isCovered ? "covered" : "not_covered";
+  const connection = await pool.getConnection();
+  try {
+    await connection.beginTransaction();
+
+    const [currentRows] = await connection.execute<RowDataPacket[]>(
+      `SELECT status, homepassed_id, operator_remarks, ticket_closed_date, finished
+       FROM coverage_results WHERE submission_id = ? AND operator = ? FOR UPDATE`,
+      [submissionId, operator],
+    );
+    const current = currentRows[0];
+    if (
+      current &&
+      current.status === status &&
+      current.homepassed_id === result.homepassedId &&
+      current.operator_remarks === result.operatorRemarks &&
+      current.ticket_closed_date === result.ticketClosedDate &&
+      Boolean(current.finished) === result.finished
+    ) {
+      await connection.commit();
+      return false;
+    }
+
+    const now = formatMySQLDateTime(new Date());
+    const values = [
+      result.homepassedId,
+      result.operatorRemarks,
+      result.ticketClosedDate,
+      result.finished ? 1 : 0,
+    ];
+    await connection.execute(
+      `INSERT INTO coverage_results (submission_id, operator, status, homepassed_id, operator_remarks, ticket_closed_date, finished, reported_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON DUPLICATE KEY UPDATE status = VALUES(status), homepassed_id = VALUES(homepassed_id),
+         operator_remarks = VALUES(operator_remarks), ticket_closed_date = VALUES(ticket_closed_date),
+         finished = VALUES(finished), updated_at = VALUES(updated_at)`,
+      [submissionId, operator, status, ...values, now, now],
+    );
+    await connection.execute(
+      `INSERT INTO coverage_result_transitions (submission_id, operator, from_status, to_status, homepassed_id, operator_remarks, ticket_closed_date, finished, changed_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [submissionId, operator, current?.status ?? null, status, ...values, now],
+    );
+
+    await connection.commit();
+    return true;
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+}
+
+/**
+ * Handles a result reported for a coverage check: stores it, writes it to
+ * the operator's result spreadsheet and, once final, stops checking.
+ * Throws SheetRowNotFoundError, leaving the check open, if the submission
+ * is not in that spreadsheet yet.
+ */
+export async function applyCoverageResult(
+  check: CoverageCheckRow,
+  result: CoverageResult,
+) {
+  if (await recordCoverageResult(check.submission_id, check.operator, result)) {
+    await syncCoverageStatus(
+      check.submission_id,
+      `${check.operator} reported ${result.isCovered ? "covered" : "not covered"}${result.finished ? "" : ", not final yet"}`,
+    );
+  }
+
+  const operator = await getOperator(check.operator);
+  if (operator?.spreadsheetTarget) {
+    await updateSheetRow(operator.spreadsheetTarget, check.submission_id, {
+      coverageStatus: result.isCovered ? "Covered" : "Not Covered",
+      homepassedId: result.homepassedId ? result.homepassedId : "",
+      operatorRemarks: result.operatorRemarks ? result.operatorRemarks : "",
+      ticketClosedDate: result.ticketClosedDate ? result.ticketClosedDate : "",
+    });
+  }
+
+  if (result.finished) {
+    await pool.execute(`UPDATE coverage_checks SET finished = ? WHERE id = ?`, [
+      1,
+      check.id,
+    ]);
+  }
+}
+
+/**
+ * Records that the operator reported on a check, so polling skips it for a
+ * while
+ */
+export async function markCoverageChecked(checkId: number) {
+  await pool.execute(
+    `UPDATE coverage_checks SET last_checked_at = ? WHERE id = ?`,
+    [formatMySQLDateTime(new Date()), checkId],
+  );
+}
+
+export type CoverageCallbackResult =
+  | { status: "ignored" }
+  | { status: "not_found" }
+  | { status: "recorded"; submissionId: string };
+
+/**
+ * Applies a result callback from a coverage bot to the check it reports on
+ */
+export async function handleCoverageCallback(
+  body: any,
+): Promise<CoverageCallbackResult> {
+  for (const adapter of allOperatorAdapters()) {
+    const callback = adapter.parseCallback?.(body);
+    if (!callback) {
+      continue;
+    }
+
+    const [checkRows] = await pool.execute<RowDataPacket[]>(
+      `SELECT id, submission_id, operator FROM coverage_checks WHERE operator = ? AND external_id = ?`,
+      [adapter.code, callback.externalId],
+    );
+    const check = checkRows[0] as CoverageCheckRow | undefined;
+    if (!check) {
+      return { status: "not_found" };
+    }
+
+    await markCoverageChecked(check.id);
+    if (callback.result) {
+      await applyCoverageResult(check, callback.result);
+    }
+    return { status: "recorded", submissionId: check.submission_id };
+  }
+  return { status: "ignored" };
+}
+
+/**
+ * Coverage of each operator checked for the given submissions, with
+ * timestamps in the given timezone
+ */
+export async function loadCoverage(
+  submissionIds: string[],
+  timeZone = "UTC",
+): Promise<Map<string, CoverageSummary[]>> {
+  const coverage = new Map<string, CoverageSummary[]>();
+  if (submissionIds.length === 0) {
+    return coverage;
+  }
+
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT cc.submission_id, cc.operator, cc.dispatched_at, cr.status, cr.homepassed_id,
+       cr.operator_remarks, cr.ticket_closed_date, cr.finished, cr.updated_at
+     FROM coverage_checks cc
+     LEFT JOIN coverage_results cr
+       ON cr.submission_id = cc.submission_id AND cr.operator = cc.operator
+     WHERE cc.submission_id IN (?)
+     ORDER BY cc.id`,
+    [submissionIds],
+  );
+  for (const row of rows) {
+    const summaries = coverage.get(row.submission_id) || [];
+    summaries.push({
+      operator: row.operator,
+      status: row.status || "pending",
+      homepassedId: row.homepassed_id ?? null,
+      operatorRemarks: row.operator_remarks ?? null,
+      ticketClosedDate: row.ticket_closed_date ?? null,
+      finished: Boolean(row.finished),
+      dispatchedAt: formatTimestamp(row.dispatched_at, timeZone),
+      updatedAt: formatTimestamp(row.updated_at, timeZone),
+    });
+    coverage.set(row.submission_id, summaries);
+  }
+  return coverage;
+}
+
+/**
+ * Every coverage result change of a submission, oldest first
+ */
+export async function loadCoverageTransitions(
+  submissionId: string,
+  timeZone = "UTC",
+) {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    `SELECT operator, from_status, to_status, homepassed_id, operator_remarks, ticket_closed_date, finished, changed_at
+     FROM coverage_result_transitions WHERE submission_id = ? ORDER BY id`,
+    [submissionId],
+  );
+  return rows.map((row) => ({
+    operator: row.operator,
+    fromStatus: row.from_status || "pending",
+    toStatus: row.to_status,
+    homepassedId: row.homepassed_id,
+    operatorRemarks: row.operator_remarks,
+    ticketClosedDate: row.ticket_closed_date,
+    finished: Boolean(row.finished),
+    changedAt: formatTimestamp(row.changed_at, timeZone),
+  }));
+}
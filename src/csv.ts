@@ -0,0 +1,86 @@
+/**
+ * Quotes a CSV cell when it holds a delimiter, quote or line break. Text that
+ * a spreadsheet would run as a formula is prefixed with an apostrophe.
+ */
+export function csvCell(value: string | number | null): string {
+  if (value === null) {
+    return "";
+  }
+  const text =
+    typeof value === "string" && /^[=+\-@\t\r]/.test(value)
+      ? `'${value}`
+      : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Parses CSV text (RFC 4180 quoting, comma separated) into records keyed by
+ * the lowercased header cells. Blank lines are skipped; `line` is the
+ * 1-based line each record starts on.
+ */
+export function parseCsv(
+  text: string,
+): { line: number; values: Record<string, string> }[] {
+  const rows: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.some((value) => value.trim() !== "")) {
+      rows.push({ line: rowLine, cells });
+    }
+    cells = [];
+    cell = "";
+  };
+
+  const input = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]!;
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") {
+          line++;
+        }
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      cells.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") {
+        i++;
+      }
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || cells.length > 0) {
+    endRow();
+  }
+
+  const [header, ...records] = rows;
+  if (!header) {
+    return [];
+  }
+  const columns = header.cells.map((name) => name.trim().toLowerCase());
+  return records.map((record) => ({
+    line: record.line,
+    values: Object.fromEntries(
+      columns.map((column, index) => [column, record.cells[index] ?? ""]),
+    ),
+  }));
+}
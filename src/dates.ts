@@ -0,0 +1,210 @@
+import { DEFAULT_TIMEZONE } from "./config";
+
+/**
+ * Formats a JavaScript Date object into MySQL DATETIME format
+ * Converts ISO format (2025-04-06T16:52:28.435Z) to MySQL format (2025-04-06 16:52:28)
+ */
+export function formatMySQLDateTime(date: Date): string {
+  return date.toISOString().slice(0, 19).replace("T", " ");
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Reads a caller's `tz` parameter (an IANA zone such as Asia/Makassar),
+ * falling back to DEFAULT_TIMEZONE. Returns null for an unknown zone.
+ */
+export function parseTimeZone(value: string | undefined): string | null {
+  if (!value) {
+    return DEFAULT_TIMEZONE;
+  }
+  return isValidTimeZone(value) ? value : null;
+}
+
+const offsetFormatters = new Map<string, Intl.DateTimeFormat>();
+
+// Minutes a timezone is ahead of UTC at the given instant
+function timeZoneOffsetMinutes(date: Date, timeZone: string): number {
+  let formatter = offsetFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    offsetFormatters.set(timeZone, formatter);
+  }
+  const parts = Object.fromEntries(
+    formatter.formatToParts(date).map((part) => [part.type, part.value]),
+  );
+  const localAsUtc = Date.UTC(
+    Number(parts.year),
+    Number(parts.month) - 1,
+    Number(parts.day),
+    Number(parts.hour),
+    Number(parts.minute),
+    Number(parts.second),
+  );
+  return Math.round(
+    (localAsUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000,
+  );
+}
+
+/**
+ * Formats a date as the wall-clock time of a timezone, e.g.
+ * "2025-04-06 23:52:28" for Asia/Jakarta
+ */
+export function formatInTimeZone(date: Date, timeZone: string): string {
+  const offset = timeZoneOffsetMinutes(date, timeZone);
+  return formatMySQLDateTime(new Date(date.getTime() + offset * 60000));
+}
+
+/**
+ * ISO 8601 timestamp with the explicit offset of a timezone, e.g.
+ * "2025-04-06T23:52:28.435+07:00". UTC keeps the "Z" form.
+ */
+export function toZonedISOString(date: Date, timeZone: string): string {
+  const offset = timeZoneOffsetMinutes(date, timeZone);
+  if (offset === 0) {
+    return date.toISOString();
+  }
+  const local = new Date(date.getTime() + offset * 60000).toISOString();
+  const sign = offset < 0 ? "-" : "+";
+  const hours = String(Math.floor(Math.abs(offset) / 60)).padStart(2, "0");
+  const minutes = String(Math.abs(offset) % 60).padStart(2, "0");
+  return `${local.slice(0, 23)}${sign}${hours}:${minutes}`;
+}
+
+/**
+ * toZonedISOString for a nullable DATETIME value read from MySQL
+ */
+export function formatTimestamp(
+  value: Date | string | null | undefined,
+  timeZone: string,
+): string | null {
+  return value ? toZonedISOString(new Date(value), timeZone) : null;
+}
+
+// The instant a wall-clock time of a timezone happens at
+function zonedTimeToDate(
+  parts: [number, number, number, number, number, number, number],
+  timeZone: string,
+): Date {
+  const [year, month, day, hour, minute, second, millisecond] = parts;
+  const localAsUtc = Date.UTC(
+    year,
+    month - 1,
+    day,
+    hour,
+    minute,
+    second,
+    millisecond,
+  );
+  let offset = timeZoneOffsetMinutes(new Date(localAsUtc), timeZone);
+  // The offset may differ on the other side of a DST change
+  offset = timeZoneOffsetMinutes(
+    new Date(localAsUtc - offset * 60000),
+    timeZone,
+  );
+  return new Date(localAsUtc - offset * 60000);
+}
+
+const dateTimeRegex =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?(Z|[+-]\d{2}:\d{2})?)?$/;
+
+// Parses an ISO date or date-time; one without an offset is a wall-clock
+// time of the given zone. A date-only value can be moved by whole days.
+// Values that are not real calendar dates or times, such as 2025-02-30 or
+// 24:00, are invalid rather than rolled over.
+function parseZonedDate(value: string, timeZone: string, addDays = 0): Date {
+  const match = dateTimeRegex.exec(value);
+  if (!match) {
+    return new Date(NaN);
+  }
+  const [year, month, day, hour, minute, second] = [1, 2, 3, 4, 5, 6].map(
+    (index) => Number(match[index] || 0),
+  ) as [number, number, number, number, number, number];
+  const millisecond = Number((match[7] || "0").padEnd(3, "0"));
+  const offset = match[8];
+
+  const check = new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+  if (
+    check.getUTCFullYear() !== year ||
+    check.getUTCMonth() !== month - 1 ||
+    check.getUTCDate() !== day ||
+    check.getUTCHours() !== hour ||
+    check.getUTCMinutes() !== minute ||
+    check.getUTCSeconds() !== second
+  ) {
+    return new Date(NaN);
+  }
+
+  if (offset) {
+    const offsetMinutes =
+      offset === "Z"
+        ? 0
+        : (offset[0] === "-" ? -1 : 1) *
+          (Number(offset.slice(1, 3)) * 60 + Number(offset.slice(4, 6)));
+    return new Date(
+      Date.UTC(
+        year,
+        month - 1,
+        day + addDays,
+        hour,
+        minute,
+        second,
+        millisecond,
+      ) -
+        offsetMinutes * 60000,
+    );
+  }
+  return zonedTimeToDate(
+    [year, month, day + addDays, hour, minute, second, millisecond],
+    timeZone,
+  );
+}
+
+export type DateRange = { from?: Date; to?: Date };
+
+/**
+ * Parses optional `from`/`to` query values (ISO dates or date-times).
+ * Values without an offset are wall-clock times of `timeZone`, and a
+ * date-only `to` includes that whole day. Returns null if either value is
+ * not a valid date.
+ */
+export function parseDateRange(
+  from: string | undefined,
+  to: string | undefined,
+  timeZone: string,
+): DateRange | null {
+  const range: DateRange = {};
+  if (from) {
+    range.from = parseZonedDate(from, timeZone);
+    if (isNaN(range.from.getTime())) {
+      return null;
+    }
+  }
+  if (to) {
+    range.to = parseZonedDate(
+      to,
+      timeZone,
+      /^\d{4}-\d{2}-\d{2}$/.test(to) ? 1 : 0,
+    );
+    if (isNaN(range.to.getTime())) {
+      return null;
+    }
+  }
+  return range;
+}
@@ -0,0 +1,18 @@
+import mysql from "mysql2/promise";
+import { DB_HOST, DB_NAME, DB_PASSWORD, DB_USER } from "./config";
+
+// MySQL Database Configuration
+const dbConfig = {
+  host: DB_HOST,
+  user: DB_USER,
+  password: DB_PASSWORD,
+  database: DB_NAME,
+  waitForConnections: true,
+  connectionLimit: 10,
+  queueLimit: 0,
+  // DATETIME columns hold UTC
+  timezone: "Z",
+};
+
+// Create MySQL pool
+export const pool = mysql.createPool(dbConfig);
@@ -0,0 +1,208 @@
+import type { PoolConnection, RowDataPacket } from "mysql2/promise";
+import { DUPLICATE_RADIUS_METERS, DUPLICATE_WINDOW_DAYS } from "./config";
+import { formatMySQLDateTime } from "./dates";
+import { pool } from "./db";
+import { boundingBoxAround } from "./geo";
+import { transitionSubmission } from "./lifecycle";
+import { parseCoordinates } from "./schemas";
+import { queueSubmissionSideEffects } from "./submissions";
+
+export type SuspectedDuplicate = {
+  submissionId: string;
+  timestamp: string;
+  salesmanName: string;
+  customerName: string;
+  distanceMeters: number | null;
+  sameHomeNo: boolean;
+};
+
+function normalizeHomeNo(homeNo: string): string {
+  return homeNo.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Finds earlier submissions for the same house: the same house number in the
+ * same village, or any submission within DUPLICATE_RADIUS_METERS, made during
+ * the last DUPLICATE_WINDOW_DAYS. Merged duplicates and cancelled submissions
+ * are not matched again.
+ */
+export async function findSuspectedDuplicates(
+  connection: PoolConnection,
+  submission: {
+    id: string;
+    coordinates: string;
+    customerHomeNo: string;
+    village: string;
+  },
+  now: Date,
+): Promise<SuspectedDuplicate[]> {
+  const point = parseCoordinates(submission.coordinates);
+  if (
+    !point ||
+    Math.abs(point.latitude) > 90 ||
+    Math.abs(point.longitude) > 180
+  ) {
+    return [];
+  }
+  const { latitude, longitude } = point;
+
+  const since = new Date(
+    now.getTime() - DUPLICATE_WINDOW_DAYS * 24 * 60 * 60 * 1000,
+  );
+
+  const [rows] = await connection.execute<RowDataPacket[]>(
+    `SELECT s.id, s.timestamp, s.salesmanName, s.customerName,
+       ST_Distance_Sphere(sl.location, POINT(?, ?)) AS distance,
+       (s.village = ? AND LOWER(REGEXP_REPLACE(s.customerHomeNo, '[^A-Za-z0-9]', '')) = ?) AS sameHomeNo
+     FROM (
+       SELECT submission_id AS id FROM submission_locations
+       WHERE MBRContains(ST_MakeEnvelope(POINT(?, ?), POINT(?, ?)), location)
+       UNION
+       SELECT id FROM submissions WHERE village = ? AND timestamp >= ?
+     ) candidates
+     JOIN submissions s ON s.id = candidates.id
+     LEFT JOIN submission_locations sl ON sl.submission_id = s.id
+     WHERE s.id <> ? AND s.timestamp >= ? AND s.duplicateOfId IS NULL
+       AND s.status <> 'cancelled'
+     HAVING distance <= ? OR sameHomeNo = 1
+     ORDER BY sameHomeNo DESC, distance
+     LIMIT 5`,
+    [
+      longitude,
+      latitude,
+      submission.village,
+      normalizeHomeNo(submission.customerHomeNo),
+      ...boundingBoxAround(latitude, longitude, DUPLICATE_RADIUS_METERS),
+      submission.village,
+      formatMySQLDateTime(since),
+      submission.id,
+      formatMySQLDateTime(since),
+      DUPLICATE_RADIUS_METERS,
+    ],
+  );
+
+  return rows.map((row) => ({
+    submissionId: row.id,
+    timestamp: new Date(row.timestamp).toISOString(),
+    salesmanName: row.salesmanName,
+    customerName: row.customerName,
+    distanceMeters: row.distance === null ? null : Math.round(row.distance),
+    sameHomeNo: row.sameHomeNo == 1,
+  }));
+}
+
+/**
+ * Flags a submission as a suspected duplicate of the given earlier ones
+ */
+export async function recordSuspectedDuplicates(
+  connection: PoolConnection,
+  submissionId: string,
+  duplicates: SuspectedDuplicate[],
+) {
+  for (const duplicate of duplicates) {
+    await connection.execute(
+      `INSERT IGNORE INTO submission_duplicates (submission_id, duplicate_of_id, distance_meters, same_home_no, status, detected_at)
+       VALUES (?, ?, ?, ?, 'suspected', ?)`,
+      [
+        submissionId,
+        duplicate.submissionId,
+        duplicate.distanceMeters,
+        duplicate.sameHomeNo ? 1 : 0,
+        formatMySQLDateTime(new Date()),
+      ],
+    );
+  }
+}
+
+export type DuplicateResolution =
+  | { status: "not_found" }
+  | { status: "already_resolved" }
+  // released: the submission has no suspected duplicates left and was queued
+  // for the spreadsheets and coverage bots
+  | { status: "resolved"; released: boolean };
+
+/**
+ * Merges a suspected duplicate into the earlier submission, or dismisses it
+ * as a distinct lead. A dismissed submission is sent to the spreadsheets and
+ * coverage bots once none of its suspected duplicates remain.
+ */
+export async function resolveDuplicate(
+  id: number,
+  action: "merge" | "dismiss",
+): Promise<DuplicateResolution> {
+  const connection = await pool.getConnection();
+  try {
+    await connection.beginTransaction();
+
+    const [rows] = await connection.execute<RowDataPacket[]>(
+      `SELECT submission_id, duplicate_of_id, status FROM submission_duplicates WHERE id = ? FOR UPDATE`,
+      [id],
+    );
+    const duplicate = rows[0];
+    if (!duplicate) {
+      await connection.rollback();
+      return { status: "not_found" };
+    }
+    if (duplicate.status !== "suspected") {
+      await connection.rollback();
+      return { status: "already_resolved" };
+    }
+
+    const resolvedAt = formatMySQLDateTime(new Date());
+    let released = false;
+
+    if (action === "merge") {
+      await connection.execute(
+        `UPDATE submission_duplicates SET status = 'merged', resolved_at = ? WHERE id = ?`,
+        [resolvedAt, id],
+      );
+      // Being merged, the other suspicions of this submission are moot
+      await connection.execute(
+        `UPDATE submission_duplicates SET status = 'dismissed', resolved_at = ?
+         WHERE submission_id = ? AND status = 'suspected'`,
+        [resolvedAt, duplicate.submission_id],
+      );
+      await connection.execute(
+        `UPDATE submissions SET duplicateOfId = ? WHERE id = ?`,
+        [duplicate.duplicate_of_id, duplicate.submission_id],
+      );
+      await transitionSubmission(
+        duplicate.submission_id,
+        "cancelled",
+        `Merged into ${duplicate.duplicate_of_id}`,
+        connection,
+      );
+    } else {
+      await connection.execute(
+        `UPDATE submission_duplicates SET status = 'dismissed', resolved_at = ? WHERE id = ?`,
+        [resolvedAt, id],
+      );
+
+      const [remainingRows] = await connection.execute<RowDataPacket[]>(
+        `SELECT id FROM submission_duplicates WHERE submission_id = ? AND status = 'suspected'`,
+        [duplicate.submission_id],
+      );
+      if (remainingRows.length === 0) {
+        const [submissionRows] = await connection.execute<RowDataPacket[]>(
+          `SELECT operators FROM submissions WHERE id = ?`,
+          [duplicate.submission_id],
+        );
+        const operators = submissionRows[0]?.operators;
+        await queueSubmissionSideEffects(
+          connection,
+          duplicate.submission_id,
+          typeof operators === "string" ? JSON.parse(operators) : operators,
+        );
+        released = true;
+      }
+    }
+
+    await connection.commit();
+    return { status: "resolved", released };
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+}
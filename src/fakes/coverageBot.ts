@@ -0,0 +1,141 @@
+import type { AxiosAdapter } from "axios";
+import { Hono } from "hono";
+
+/**
+ * What the fake bot reports for a ticket:
+ * - pending: the operator has not answered
+ * - covered: covered, homepass not closed yet
+ * - covered_closed: covered with a homepass ID and closed ticket (final)
+ * - not_covered: not covered (final)
+ */
+export type FakeTicketOutcome =
+  | "pending"
+  | "covered"
+  | "covered_closed"
+  | "not_covered";
+
+export type FakeTicket = {
+  id: number;
+  request: any;
+  outcome: FakeTicketOutcome;
+  createdAt: Date;
+};
+
+/**
+ * In-process stand-in for the coverage bot API (`POST /api/check-coverage`
+ * and `GET /api/check-coverage/:id`) whose answers are set by the caller
+ */
+export function createFakeCoverageBot() {
+  const tickets = new Map<number, FakeTicket>();
+  let nextId = 1;
+  let defaultOutcome: FakeTicketOutcome = "pending";
+  // Statuses of the next responses to fail, consumed one per request
+  let failures: number[] = [];
+
+  const app = new Hono();
+
+  app.use("*", async (c, next) => {
+    const status = failures.shift();
+    if (status !== undefined) {
+      return c.json({ message: "Scripted failure" }, status as any);
+    }
+    await next();
+  });
+
+  app.post("/api/check-coverage", async (c) => {
+    const ticket: FakeTicket = {
+      id: nextId++,
+      request: await c.req.json(),
+      outcome: defaultOutcome,
+      createdAt: new Date(),
+    };
+    tickets.set(ticket.id, ticket);
+    return c.json({ data: [{ id: ticket.id }] });
+  });
+
+  app.get("/api/check-coverage/:id", (c) => {
+    const ticket = tickets.get(Number(c.req.param("id")));
+    if (!ticket) {
+      return c.json({ message: "Ticket not found" }, 404);
+    }
+    return c.json({ data: ticketData(ticket) });
+  });
+
+  function ticketData(ticket: FakeTicket) {
+    const closed = ticket.outcome === "covered_closed";
+    return {
+      id: ticket.id,
+      operator: "fiberstar",
+      is_covered:
+        ticket.outcome === "pending"
+          ? null
+          : ticket.outcome === "not_covered"
+            ? 0
+            : 1,
+      homepassed_id: closed ? `HP-${ticket.id}` : null,
+      operator_remarks: ticket.outcome === "pending" ? null : "Fake bot",
+      ticket_closed_date: closed ? ticket.createdAt.toISOString() : null,
+    };
+  }
+
+  // Routes axios requests to the fake app instead of the network
+  const adapter: AxiosAdapter = async (config) => {
+    const url = new URL(config.url || "", config.baseURL || "http://fake-bot");
+    const response = await app.request(url.pathname + url.search, {
+      method: (config.method || "get").toUpperCase(),
+      headers: config.headers?.toJSON?.() as Record<string, string>,
+      body: config.data,
+    });
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      headers[key] = value;
+    });
+    return {
+      data: await response.text(),
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      config,
+      request: {},
+    };
+  };
+
+  return {
+    app,
+    adapter,
+    // Outcome of tickets created from now on
+    setDefaultOutcome(outcome: FakeTicketOutcome) {
+      defaultOutcome = outcome;
+    },
+    setOutcome(ticketId: number | string, outcome: FakeTicketOutcome) {
+      const ticket = tickets.get(Number(ticketId));
+      if (!ticket) {
+        throw new Error(`Fake bot has no ticket ${ticketId}`);
+      }
+      ticket.outcome = outcome;
+    },
+    // Makes the next `count` requests answer with `status`
+    failNext(count = 1, status = 500) {
+      failures.push(...Array<number>(count).fill(status));
+    },
+    tickets(): FakeTicket[] {
+      return [...tickets.values()];
+    },
+    // Body of a result callback for a ticket, as the real bot posts it
+    callbackBody(ticketId: number | string) {
+      const ticket = tickets.get(Number(ticketId));
+      if (!ticket) {
+        throw new Error(`Fake bot has no ticket ${ticketId}`);
+      }
+      return { data: ticketData(ticket) };
+    },
+    reset() {
+      tickets.clear();
+      nextId = 1;
+      defaultOutcome = "pending";
+      failures = [];
+    },
+  };
+}
+
+export type FakeCoverageBot = ReturnType<typeof createFakeCoverageBot>;
@@ -0,0 +1,10 @@
+import { createFakeCoverageBot } from "./coverageBot";
+import { createFakeSheets } from "./sheets";
+
+export type { FakeCoverageBot, FakeTicketOutcome } from "./coverageBot";
+export type { FakeSheets } from "./sheets";
+
+// Shared by the app and the test driving it when COVERAGE_BOT_DRIVER=fake
+// or SHEETS_DRIVER=fake
+export const fakeCoverageBot = createFakeCoverageBot();
+export const fakeSheets = createFakeSheets();
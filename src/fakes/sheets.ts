@@ -0,0 +1,184 @@
+type ValuesParams = {
+  spreadsheetId?: string;
+  range?: string;
+  valueInputOption?: string;
+  requestBody?: { values?: any[][] | null };
+};
+
+// A parsed A1 range; missing bounds mean "to the edge of the sheet"
+type A1Range = {
+  sheetName: string;
+  startColumn: number;
+  startRow: number;
+  endColumn?: number;
+  endRow?: number;
+};
+
+function columnIndex(letters: string): number {
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function columnLetters(index: number): string {
+  let letters = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+function parseRange(range: string): A1Range {
+  const match = range.match(
+    /^(?:'((?:[^']|'')+)'|([^!]+))!([A-Z]*)(\d*)(?::([A-Z]*)(\d*))?$/,
+  );
+  if (!match) {
+    throw new Error(`Unable to parse range: ${range}`);
+  }
+  const [, quoted, plain, startCol, startRow, endCol, endRow] = match;
+  return {
+    sheetName: quoted ? quoted.replace(/''/g, "'") : plain!,
+    startColumn: startCol ? columnIndex(startCol) : 0,
+    startRow: startRow ? Number(startRow) - 1 : 0,
+    endColumn: endCol
+      ? columnIndex(endCol)
+      : startCol && !endRow
+        ? columnIndex(startCol)
+        : undefined,
+    endRow: endRow
+      ? Number(endRow) - 1
+      : startRow && !endCol
+        ? Number(startRow) - 1
+        : undefined,
+  };
+}
+
+/**
+ * In-process stand-in for the Google Sheets `spreadsheets.values` calls
+ * the sheet sync makes (append, get and update), keeping every sheet as a
+ * grid of strings
+ */
+export function createFakeSheets() {
+  const sheets = new Map<string, string[][]>();
+  let failures = 0;
+
+  function grid(spreadsheetId: string | undefined, sheetName: string) {
+    const key = `${spreadsheetId}/${sheetName}`;
+    let rows = sheets.get(key);
+    if (!rows) {
+      rows = [];
+      sheets.set(key, rows);
+    }
+    return rows;
+  }
+
+  function failIfScripted() {
+    if (failures > 0) {
+      failures--;
+      throw new Error("Scripted Google Sheets failure");
+    }
+  }
+
+  function write(rows: string[][], range: A1Range, values: any[][]) {
+    values.forEach((rowValues, rowOffset) => {
+      const row = (rows[range.startRow + rowOffset] ??= []);
+      rowValues.forEach((value, columnOffset) => {
+        row[range.startColumn + columnOffset] = String(value ?? "");
+      });
+    });
+  }
+
+  const values = {
+    async get(params: ValuesParams) {
+      failIfScripted();
+      const range = parseRange(params.range || "");
+      const rows = grid(params.spreadsheetId, range.sheetName);
+      const lastRow = Math.min(range.endRow ?? Infinity, rows.length - 1);
+
+      const result: string[][] = [];
+      for (let r = range.startRow; r <= lastRow; r++) {
+        const row = rows[r] || [];
+        const lastColumn = Math.min(
+          range.endColumn ?? Infinity,
+          row.length - 1,
+        );
+        const cells = Array.from(
+          { length: Math.max(lastColumn - range.startColumn + 1, 0) },
+          (_, i) => row[range.startColumn + i] ?? "",
+        );
+        // Google leaves out trailing empty cells
+        while (cells.length > 0 && cells[cells.length - 1] === "") {
+          cells.pop();
+        }
+        result.push(cells);
+      }
+      while (result.length > 0 && result[result.length - 1]!.length === 0) {
+        result.pop();
+      }
+      return { data: { range: params.range, values: result } };
+    },
+
+    async append(params: ValuesParams) {
+      failIfScripted();
+      const range = parseRange(params.range || "");
+      const rows = grid(params.spreadsheetId, range.sheetName);
+      const newValues = params.requestBody?.values || [];
+
+      // Append after the last row holding any value
+      let startRow = rows.length;
+      while (startRow > 0 && !rows[startRow - 1]?.some((cell) => cell)) {
+        startRow--;
+      }
+      write(rows, { ...range, startRow, startColumn: 0 }, newValues);
+
+      const width = Math.max(...newValues.map((row) => row.length), 1);
+      const endRow = startRow + Math.max(newValues.length, 1);
+      return {
+        data: {
+          updates: {
+            updatedRange: `${range.sheetName}!A${startRow + 1}:${columnLetters(width - 1)}${endRow}`,
+          },
+        },
+      };
+    },
+
+    async update(params: ValuesParams) {
+      failIfScripted();
+      const range = parseRange(params.range || "");
+      write(
+        grid(params.spreadsheetId, range.sheetName),
+        range,
+        params.requestBody?.values || [],
+      );
+      return { data: { updatedRange: params.range } };
+    },
+  };
+
+  return {
+    spreadsheets: { values },
+    // Replaces the content of a sheet, e.g. to set up its header row
+    setRows(spreadsheetId: string, sheetName: string, rows: string[][]) {
+      sheets.set(
+        `${spreadsheetId}/${sheetName}`,
+        rows.map((row) => [...row]),
+      );
+    },
+    rows(spreadsheetId: string, sheetName: string): string[][] {
+      return grid(spreadsheetId, sheetName).map((row) =>
+        Array.from(row, (cell) => cell ?? ""),
+      );
+    },
+    // Makes the next `count` calls throw
+    failNext(count = 1) {
+      failures += count;
+    },
+    reset() {
+      sheets.clear();
+      failures = 0;
+    },
+  };
+}
+
+export type FakeSheets = ReturnType<typeof createFakeSheets>;
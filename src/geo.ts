@@ -0,0 +1,269 @@
+import type { PoolConnection, RowDataPacket } from "mysql2/promise";
+import { type CoverageSummary, loadCoverage } from "./coverage";
+import { toZonedISOString } from "./dates";
+import { pool } from "./db";
+import type { SubmissionStatus } from "./lifecycle";
+import { parseCoordinates } from "./schemas";
+
+// Meters per degree of latitude, used to size bounding boxes around a point
+const METERS_PER_DEGREE = 111_320;
+
+// Most features returned by the map feed, newest first
+const MAX_FEATURES = 5000;
+
+// Most results returned by a nearby lookup, closest first
+const MAX_NEARBY_RESULTS = 100;
+
+/**
+ * A bounding box as in GeoJSON: west, south, east, north
+ */
+export type BoundingBox = [number, number, number, number];
+
+/**
+ * Parses a "minLng,minLat,maxLng,maxLat" bbox query value, or returns null
+ * if it isn't one
+ */
+export function parseBoundingBox(value: string): BoundingBox | null {
+  const parts = value.split(",").map((part) => Number(part.trim()));
+  if (parts.length !== 4 || parts.some((part) => !Number.isFinite(part))) {
+    return null;
+  }
+  const [west, south, east, north] = parts as BoundingBox;
+  if (
+    south > north ||
+    west > east ||
+    Math.abs(south) > 90 ||
+    Math.abs(north) > 90 ||
+    Math.abs(west) > 180 ||
+    Math.abs(east) > 180
+  ) {
+    return null;
+  }
+  return [west, south, east, north];
+}
+
+/**
+ * A box around a point that holds every point within `radiusMeters`, to
+ * narrow down with the spatial index before measuring real distances
+ */
+export function boundingBoxAround(
+  latitude: number,
+  longitude: number,
+  radiusMeters: number,
+): BoundingBox {
+  const latitudeDelta = radiusMeters / METERS_PER_DEGREE;
+  const longitudeDelta =
+    radiusMeters /
+    (METERS_PER_DEGREE * Math.max(Math.cos((latitude * Math.PI) / 180), 0.01));
+  return [
+    longitude - longitudeDelta,
+    latitude - latitudeDelta,
+    longitude + longitudeDelta,
+    latitude + latitudeDelta,
+  ];
+}
+
+/**
+ * Stores the point of a submission's coordinates, or removes it if they
+ * can't be parsed. Runs inside the caller's transaction.
+ */
+export async function saveSubmissionLocation(
+  connection: PoolConnection,
+  submissionId: string,
+  coordinates: string,
+) {
+  const point = parseCoordinates(coordinates);
+  if (
+    !point ||
+    Math.abs(point.latitude) > 90 ||
+    Math.abs(point.longitude) > 180
+  ) {
+    await connection.execute(
+      `DELETE FROM submission_locations WHERE submission_id = ?`,
+      [submissionId],
+    );
+    return;
+  }
+
+  await connection.execute(
+    `INSERT INTO submission_locations (submission_id, location) VALUES (?, POINT(?, ?))
+     ON DUPLICATE KEY UPDATE location = VALUES(location)`,
+    [submissionId, point.longitude, point.latitude],
+  );
+}
+
+type Feature = {
+  type: "Feature";
+  id: string;
+  geometry: { type: "Point"; coordinates: [number, number] };
+  properties: {
+    timestamp: string;
+    customerName: string;
+    salesmanName: string;
+    buildingType: string;
+    village: string;
+    status: SubmissionStatus;
+    operators: string[];
+    coverage: CoverageSummary[];
+  };
+};
+
+export type FeatureCollection = {
+  type: "FeatureCollection";
+  features: Feature[];
+  // Set when more submissions matched than the feed returns
+  truncated: boolean;
+};
+
+/**
+ * Submissions as GeoJSON points, optionally limited to a bounding box, the
+ * operators asked for and a lifecycle status. Cancelled submissions are
+ * left out unless that status is asked for. Timestamps are in `timeZone`.
+ */
+export async function loadSubmissionFeatures(filter: {
+  bbox?: BoundingBox;
+  operator?: string;
+  status?: SubmissionStatus;
+  timeZone: string;
+}): Promise<FeatureCollection> {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+  if (filter.bbox) {
+    const [west, south, east, north] = filter.bbox;
+    conditions.push(
+      "MBRContains(ST_MakeEnvelope(POINT(?, ?), POINT(?, ?)), sl.location)",
+    );
+    params.push(west, south, east, north);
+  }
+  if (filter.operator) {
+    conditions.push("JSON_CONTAINS(s.operators, JSON_QUOTE(?))");
+    params.push(filter.operator);
+  }
+  if (filter.status) {
+    conditions.push("s.status = ?");
+    params.push(filter.status);
+  } else {
+    conditions.push("s.status <> 'cancelled'");
+  }
+
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT s.id, s.timestamp, s.customerName, s.salesmanName, s.buildingType,
+       s.village, s.status, s.operators,
+       ST_X(sl.location) AS longitude, ST_Y(sl.location) AS latitude
+     FROM submission_locations sl
+     JOIN submissions s ON s.id = sl.submission_id
+     WHERE ${conditions.join(" AND ")}
+     ORDER BY s.timestamp DESC
+     LIMIT ?`,
+    [...params, MAX_FEATURES + 1],
+  );
+
+  const truncated = rows.length > MAX_FEATURES;
+  const featureRows = rows.slice(0, MAX_FEATURES);
+  const coverage = await loadCoverage(
+    featureRows.map((row) => row.id),
+    filter.timeZone,
+  );
+
+  return {
+    type: "FeatureCollection",
+    features: featureRows.map((row) => ({
+      type: "Feature",
+      id: row.id,
+      geometry: {
+        type: "Point",
+        coordinates: [Number(row.longitude), Number(row.latitude)],
+      },
+      properties: {
+        timestamp: toZonedISOString(new Date(row.timestamp), filter.timeZone),
+        customerName: row.customerName,
+        salesmanName: row.salesmanName,
+        buildingType: row.buildingType,
+        village: row.village,
+        status: row.status,
+        operators:
+          typeof row.operators === "string"
+            ? JSON.parse(row.operators)
+            : row.operators,
+        coverage: coverage.get(row.id) || [],
+      },
+    })),
+    truncated,
+  };
+}
+
+/**
+ * A coverage result reported for an earlier submission near a point. It
+ * carries no customer details or exact location since the lookup is public.
+ */
+export type NearbyCoverage = {
+  operator: string;
+  status: "covered" | "not_covered";
+  distanceMeters: number;
+  reportedAt: string;
+};
+
+/**
+ * Coverage results of the submissions within `radiusMeters` of a point,
+ * closest first, and how many of them were covered per operator
+ */
+export async function findNearbyCoverage(
+  latitude: number,
+  longitude: number,
+  radiusMeters: number,
+) {
+  const [west, south, east, north] = boundingBoxAround(
+    latitude,
+    longitude,
+    radiusMeters,
+  );
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT cr.operator, cr.status, cr.reported_at,
+       ST_Distance_Sphere(sl.location, POINT(?, ?)) AS distance
+     FROM submission_locations sl
+     JOIN submissions s ON s.id = sl.submission_id
+     JOIN coverage_results cr ON cr.submission_id = sl.submission_id
+     WHERE MBRContains(ST_MakeEnvelope(POINT(?, ?), POINT(?, ?)), sl.location)
+       AND s.status <> 'cancelled'
+     HAVING distance <= ?
+     ORDER BY distance
+     LIMIT ?`,
+    [
+      longitude,
+      latitude,
+      west,
+      south,
+      east,
+      north,
+      radiusMeters,
+      MAX_NEARBY_RESULTS,
+    ],
+  );
+
+  const results: NearbyCoverage[] = rows.map((row) => ({
+    operator: row.operator,
+    status: row.status,
+    distanceMeters: Math.round(row.distance),
+    reportedAt: new Date(row.reported_at).toISOString(),
+  }));
+
+  const operators = new Map<
+    string,
+    { operator: string; covered: number; notCovered: number }
+  >();
+  for (const result of results) {
+    const summary = operators.get(result.operator) || {
+      operator: result.operator,
+      covered: 0,
+      notCovered: 0,
+    };
+    if (result.status === "covered") {
+      summary.covered++;
+    } else {
+      summary.notCovered++;
+    }
+    operators.set(result.operator, summary);
+  }
+
+  return { results, operators: [...operators.values()] };
+}
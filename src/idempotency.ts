@@ -0,0 +1,152 @@
+import { createHash } from "crypto";
+import type {
+  PoolConnection,
+  ResultSetHeader,
+  RowDataPacket,
+} from "mysql2/promise";
+import {
+  IDEMPOTENCY_IN_PROGRESS_TIMEOUT_MINUTES,
+  IDEMPOTENCY_KEY_TTL_HOURS,
+} from "./config";
+import { formatMySQLDateTime } from "./dates";
+import { pool } from "./db";
+
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+
+const idempotencyKeyRegex = /^[A-Za-z0-9_.:-]{8,100}$/;
+
+export type IdempotencyReservation =
+  // First time this key is seen; the caller owns it now
+  | { status: "reserved" }
+  // The key belongs to an earlier request, finished or still in flight
+  | {
+      status: "replay";
+      submissionId: string;
+      timestamp: string;
+      completed: boolean;
+    }
+  // The key was used before for a different submission
+  | { status: "mismatch" };
+
+export function isValidIdempotencyKey(key: string): boolean {
+  return idempotencyKeyRegex.test(key);
+}
+
+/**
+ * Fingerprints the submitted fields so a reused key with a different
+ * submission can be told apart from a retry
+ */
+export function hashSubmissionRequest(fields: unknown): string {
+  return createHash("sha256").update(JSON.stringify(fields)).digest("hex");
+}
+
+/**
+ * Claims an idempotency key for a new submission. The row is written outside
+ * the submission's transaction so that retries arriving while the first
+ * request is still running see it. A key left in progress for longer than
+ * IDEMPOTENCY_IN_PROGRESS_TIMEOUT_MINUTES belongs to a request that died,
+ * so it is taken over.
+ */
+export async function reserveIdempotencyKey(
+  key: string,
+  requestHash: string,
+  submissionId: string,
+  timestamp: string,
+): Promise<IdempotencyReservation> {
+  try {
+    await pool.execute(
+      `INSERT INTO idempotency_keys (idempotency_key, request_hash, submission_id, submitted_at, status, created_at)
+       VALUES (?, ?, ?, ?, 'in_progress', ?)`,
+      [
+        key,
+        requestHash,
+        submissionId,
+        timestamp,
+        formatMySQLDateTime(new Date()),
+      ],
+    );
+    return { status: "reserved" };
+  } catch (error: any) {
+    if (error?.code !== "ER_DUP_ENTRY") {
+      throw error;
+    }
+  }
+
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    `SELECT request_hash, submission_id, submitted_at, status FROM idempotency_keys WHERE idempotency_key = ?`,
+    [key],
+  );
+  const row = rows[0];
+  if (!row) {
+    // Released by a failed first request in the meantime
+    return reserveIdempotencyKey(key, requestHash, submissionId, timestamp);
+  }
+  if (row.request_hash !== requestHash) {
+    return { status: "mismatch" };
+  }
+
+  if (row.status === "in_progress") {
+    const staleBefore = new Date(
+      Date.now() - IDEMPOTENCY_IN_PROGRESS_TIMEOUT_MINUTES * 60 * 1000,
+    );
+    const [result] = await pool.execute<ResultSetHeader>(
+      `UPDATE idempotency_keys SET submission_id = ?, submitted_at = ?, created_at = ?
+       WHERE idempotency_key = ? AND status = 'in_progress' AND created_at < ?`,
+      [
+        submissionId,
+        timestamp,
+        formatMySQLDateTime(new Date()),
+        key,
+        formatMySQLDateTime(staleBefore),
+      ],
+    );
+    if (result.affectedRows === 1) {
+      return { status: "reserved" };
+    }
+  }
+
+  return {
+    status: "replay",
+    submissionId: row.submission_id,
+    timestamp: row.submitted_at,
+    completed: row.status === "completed",
+  };
+}
+
+/**
+ * Marks the key as completed in the submission's transaction
+ */
+export async function completeIdempotencyKey(
+  connection: PoolConnection,
+  key: string,
+) {
+  await connection.execute(
+    `UPDATE idempotency_keys SET status = 'completed' WHERE idempotency_key = ?`,
+    [key],
+  );
+}
+
+/**
+ * Frees the key after a failed submission so the client's retry is processed
+ */
+export async function releaseIdempotencyKey(key: string) {
+  await pool.execute(
+    `DELETE FROM idempotency_keys WHERE idempotency_key = ? AND status = 'in_progress'`,
+    [key],
+  );
+}
+
+/**
+ * Deletes keys older than IDEMPOTENCY_KEY_TTL_HOURS, after which a retry is
+ * treated as a new submission. Returns how many were deleted.
+ */
+export async function deleteExpiredIdempotencyKeys(): Promise<number> {
+  const expiredBefore = new Date(
+    Date.now() - IDEMPOTENCY_KEY_TTL_HOURS * 60 * 60 * 1000,
+  );
+  const [result] = await pool.execute<ResultSetHeader>(
+    `DELETE FROM idempotency_keys WHERE created_at < ?`,
+    [formatMySQLDateTime(expiredBefore)],
+  );
+  return result.affectedRows;
+}
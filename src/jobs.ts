@@ -0,0 +1,191 @@
+import cron from "node-cron";
+import type { ResultSetHeader, RowDataPacket } from "mysql2/promise";
+import { formatMySQLDateTime } from "./dates";
+import { pool } from "./db";
+
+/**
+ * What a job run got through, stored in its run history
+ */
+export type JobOutcome = {
+  processed: number;
+  errors: number;
+};
+
+/**
+ * A scheduled background task. Only one instance of the app runs a job at
+ * a time; the others skip that tick.
+ */
+export type Job = {
+  name: string;
+  // node-cron expression
+  schedule: string;
+  description: string;
+  run(): Promise<JobOutcome>;
+};
+
+export type JobTrigger = "schedule" | "manual";
+
+export type JobRunResult =
+  | { status: "not_found" }
+  | { status: "locked" }
+  | { status: "started"; runId: number; done: Promise<void> };
+
+const jobs = new Map<string, Job>();
+
+export function registerJob(job: Job) {
+  jobs.set(job.name, job);
+}
+
+export function getJob(name: string): Job | undefined {
+  return jobs.get(name);
+}
+
+export function allJobs(): Job[] {
+  return [...jobs.values()];
+}
+
+/**
+ * Starts a job unless another instance holds its lease. The lease is a
+ * MySQL named lock held by a dedicated connection until the run ends.
+ */
+export async function runJob(
+  name: string,
+  trigger: JobTrigger,
+): Promise<JobRunResult> {
+  const job = jobs.get(name);
+  if (!job) {
+    return { status: "not_found" };
+  }
+
+  const connection = await pool.getConnection();
+  const lockName = `coverage-check-be:job:${name}`;
+  let runId: number;
+  try {
+    const [lockRows] = await connection.query<RowDataPacket[]>(
+      `SELECT GET_LOCK(?, 0) AS acquired`,
+      [lockName],
+    );
+    if (lockRows[0]?.acquired !== 1) {
+      connection.release();
+      return { status: "locked" };
+    }
+
+    const [insertResult] = await connection.execute<ResultSetHeader>(
+      `INSERT INTO job_runs (job_name, job_trigger, status, started_at) VALUES (?, ?, 'running', ?)`,
+      [name, trigger, formatMySQLDateTime(new Date())],
+    );
+    runId = insertResult.insertId;
+  } catch (error) {
+    await connection
+      .query(`SELECT RELEASE_LOCK(?)`, [lockName])
+      .catch(() => {});
+    connection.release();
+    throw error;
+  }
+
+  const done = (async () => {
+    try {
+      const outcome = await job.run();
+      await connection.execute(
+        `UPDATE job_runs SET status = 'succeeded', finished_at = ?, items_processed = ?, error_count = ? WHERE id = ?`,
+        [
+          formatMySQLDateTime(new Date()),
+          outcome.processed,
+          outcome.errors,
+          runId,
+        ],
+      );
+    } catch (error) {
+      console.error(`Error in job ${name}:`, error);
+      await connection
+        .execute(
+          `UPDATE job_runs SET status = 'failed', finished_at = ?, error = ? WHERE id = ?`,
+          [
+            formatMySQLDateTime(new Date()),
+            error instanceof Error ? error.message : String(error),
+            runId,
+          ],
+        )
+        .catch((updateError) =>
+          console.error(`Error recording run of job ${name}:`, updateError),
+        );
+    } finally {
+      await connection
+        .query(`SELECT RELEASE_LOCK(?)`, [lockName])
+        .catch(() => {});
+      connection.release();
+    }
+  })();
+
+  return { status: "started", runId, done };
+}
+
+/**
+ * Schedules every registered job. Only the server calls this; scripts
+ * sharing the pool schedule nothing.
+ */
+export function startJobScheduler() {
+  for (const job of jobs.values()) {
+    cron.schedule(job.schedule, async () => {
+      try {
+        const result = await runJob(job.name, "schedule");
+        if (result.status === "started") {
+          await result.done;
+        }
+      } catch (error) {
+        console.error(`Error starting job ${job.name}:`, error);
+      }
+    });
+  }
+}
+
+export type JobRun = {
+  id: number;
+  jobName: string;
+  trigger: JobTrigger;
+  status: "running" | "succeeded" | "failed";
+  startedAt: string;
+  finishedAt: string | null;
+  itemsProcessed: number | null;
+  errorCount: number | null;
+  error: string | null;
+};
+
+function toJobRun(row: RowDataPacket): JobRun {
+  return {
+    id: row.id,
+    jobName: row.job_name,
+    trigger: row.job_trigger,
+    status: row.status,
+    startedAt: new Date(row.started_at).toISOString(),
+    finishedAt: row.finished_at
+      ? new Date(row.finished_at).toISOString()
+      : null,
+    itemsProcessed: row.items_processed,
+    errorCount: row.error_count,
+    error: row.error,
+  };
+}
+
+/**
+ * Latest runs of a job, newest first
+ */
+export async function loadJobRuns(name: string, limit = 50): Promise<JobRun[]> {
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT * FROM job_runs WHERE job_name = ? ORDER BY id DESC LIMIT ?`,
+    [name, limit],
+  );
+  return rows.map(toJobRun);
+}
+
+/**
+ * Last run of every job that ran at least once
+ */
+export async function loadLastJobRuns(): Promise<Map<string, JobRun>> {
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT r.* FROM job_runs r
+     JOIN (SELECT job_name, MAX(id) AS id FROM job_runs GROUP BY job_name) latest
+       ON latest.id = r.id`,
+  );
+  return new Map(rows.map((row) => [row.job_name, toJobRun(row)]));
+}
@@ -0,0 +1,171 @@
+import type { PoolConnection, RowDataPacket } from "mysql2/promise";
+import { formatMySQLDateTime, toZonedISOString } from "./dates";
+import { pool } from "./db";
+
+export const SUBMISSION_STATUSES = [
+  // Stored, waiting for its coverage checks to be sent
+  "received",
+  // Sent to at least one operator's checker
+  "dispatched",
+  // An operator answered, but not finally
+  "awaiting_operator",
+  "covered",
+  "not_covered",
+  // A coverage check could not be sent
+  "failed",
+  "cancelled",
+] as const;
+
+export type SubmissionStatus = (typeof SUBMISSION_STATUSES)[number];
+
+const TRANSITIONS: Record<SubmissionStatus, SubmissionStatus[]> = {
+  received: [
+    "dispatched",
+    "awaiting_operator",
+    "covered",
+    "not_covered",
+    "failed",
+    "cancelled",
+  ],
+  dispatched: [
+    "received",
+    "awaiting_operator",
+    "covered",
+    "not_covered",
+    "failed",
+    "cancelled",
+  ],
+  awaiting_operator: [
+    "received",
+    "covered",
+    "not_covered",
+    "failed",
+    "cancelled",
+  ],
+  // Results can still be revised by the operator or reset by a location edit
+  covered: ["received", "awaiting_operator", "not_covered", "cancelled"],
+  not_covered: ["received", "awaiting_operator", "covered", "cancelled"],
+  failed: ["received", "dispatched", "cancelled"],
+  cancelled: [],
+};
+
+export class InvalidTransitionError extends Error {
+  constructor(
+    public from: SubmissionStatus,
+    public to: SubmissionStatus,
+  ) {
+    super(`Cannot move a submission from ${from} to ${to}`);
+    this.name = "InvalidTransitionError";
+  }
+}
+
+export function canTransition(
+  from: SubmissionStatus,
+  to: SubmissionStatus,
+): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Logs the initial status of a new submission. Runs inside the submit
+ * transaction.
+ */
+export async function recordSubmissionReceived(
+  connection: PoolConnection,
+  submissionId: string,
+) {
+  await connection.execute(
+    `INSERT INTO submission_transitions (submission_id, from_status, to_status, reason, created_at)
+     VALUES (?, NULL, 'received', 'Submitted', ?)`,
+    [submissionId, formatMySQLDateTime(new Date())],
+  );
+}
+
+async function applyTransition(
+  connection: PoolConnection,
+  submissionId: string,
+  to: SubmissionStatus,
+  reason: string,
+): Promise<boolean> {
+  const [rows] = await connection.execute<RowDataPacket[]>(
+    `SELECT status FROM submissions WHERE id = ? FOR UPDATE`,
+    [submissionId],
+  );
+  const submission = rows[0];
+  if (!submission) {
+    throw new Error(`Submission ${submissionId} not found`);
+  }
+
+  const from: SubmissionStatus = submission.status;
+  if (from === to) {
+    return false;
+  }
+  if (!canTransition(from, to)) {
+    throw new InvalidTransitionError(from, to);
+  }
+
+  await connection.execute(`UPDATE submissions SET status = ? WHERE id = ?`, [
+    to,
+    submissionId,
+  ]);
+  await connection.execute(
+    `INSERT INTO submission_transitions (submission_id, from_status, to_status, reason, created_at)
+     VALUES (?, ?, ?, ?, ?)`,
+    [submissionId, from, to, reason, formatMySQLDateTime(new Date())],
+  );
+  return true;
+}
+
+/**
+ * Moves a submission to another status and logs why. Runs inside the given
+ * transaction, or in its own one. Returns false if the submission already
+ * had that status; throws InvalidTransitionError if the move is not allowed.
+ */
+export async function transitionSubmission(
+  submissionId: string,
+  to: SubmissionStatus,
+  reason: string,
+  connection?: PoolConnection,
+): Promise<boolean> {
+  if (connection) {
+    return applyTransition(connection, submissionId, to, reason);
+  }
+
+  const ownConnection = await pool.getConnection();
+  try {
+    await ownConnection.beginTransaction();
+    const changed = await applyTransition(
+      ownConnection,
+      submissionId,
+      to,
+      reason,
+    );
+    await ownConnection.commit();
+    return changed;
+  } catch (error) {
+    await ownConnection.rollback();
+    throw error;
+  } finally {
+    ownConnection.release();
+  }
+}
+
+/**
+ * Status changes of a submission, oldest first
+ */
+export async function loadSubmissionTransitions(
+  submissionId: string,
+  timeZone = "UTC",
+) {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    `SELECT from_status, to_status, reason, created_at
+     FROM submission_transitions WHERE submission_id = ? ORDER BY id`,
+    [submissionId],
+  );
+  return rows.map((row) => ({
+    from: row.from_status as SubmissionStatus | null,
+    to: row.to_status as SubmissionStatus,
+    reason: row.reason,
+    at: toZonedISOString(new Date(row.created_at), timeZone),
+  }));
+}
@@ -1,40 +1,148 @@
-import axios from "axios";
 import { randomUUID } from "crypto";
-import { createReadStream, existsSync } from "fs";
-import { mkdir, stat } from "fs/promises";
-import { google } from "googleapis";
 import { Hono } from "hono";
 import { serveStatic } from "hono/bun";
 import { cors } from "hono/cors";
 import { HTTPException } from "hono/http-exception";
 import { logger } from "hono/logger";
-import mysql, { type RowDataPacket } from "mysql2/promise";
-import { extname, join } from "path";
-import "../cron/checkCoverageBot";
-import "../cron/checkCoverageStatus"; // Import the cron job
+import { type RowDataPacket } from "mysql2/promise";
+import { extname } from "path";
+import { registerCronJobs } from "../cron";
+import {
+  type AnalyticsDimension,
+  buildCoverageAnalytics,
+  coverageAnalyticsCsv,
+} from "./analytics";
+import {
+  createBranch,
+  getBranch,
+  listBranches,
+  setBranchActive,
+  updateBranch,
+} from "./branches";
 import {
   API_KEY,
-  DB_HOST,
-  DB_NAME,
-  DB_PASSWORD,
-  DB_USER,
+  checkServerConfig,
+  DEFAULT_TIMEZONE,
+  NEARBY_DEFAULT_RADIUS_METERS,
+  NEARBY_MAX_RADIUS_METERS,
   PORT,
-  UPLOADS_DIR,
 } from "./config";
+import {
+  type CoverageCallbackResult,
+  handleCoverageCallback,
+  loadCoverage,
+  loadCoverageTransitions,
+} from "./coverage";
+import {
+  formatMySQLDateTime,
+  formatTimestamp,
+  parseDateRange,
+  parseTimeZone,
+  toZonedISOString,
+} from "./dates";
+import { pool } from "./db";
+import {
+  findSuspectedDuplicates,
+  recordSuspectedDuplicates,
+  resolveDuplicate,
+} from "./duplicates";
+import {
+  findNearbyCoverage,
+  loadSubmissionFeatures,
+  parseBoundingBox,
+  saveSubmissionLocation,
+} from "./geo";
+import {
+  completeIdempotencyKey,
+  hashSubmissionRequest,
+  IDEMPOTENCY_KEY_HEADER,
+  isValidIdempotencyKey,
+  releaseIdempotencyKey,
+  reserveIdempotencyKey,
+} from "./idempotency";
+import {
+  allJobs,
+  getJob,
+  loadJobRuns,
+  loadLastJobRuns,
+  runJob,
+  startJobScheduler,
+} from "./jobs";
+import {
+  loadSubmissionTransitions,
+  recordSubmissionReceived,
+  SUBMISSION_STATUSES,
+  type SubmissionStatus,
+} from "./lifecycle";
+import { getOperatorAdapter } from "./operators";
+import {
+  createOperator,
+  listOperators,
+  setOperatorActive,
+  spreadsheetTargets,
+  updateOperator,
+} from "./operators/catalog";
+import { deliverDueOutboxEvents, retryOutboxEvent } from "./outbox";
+import { verifyPhotoToken } from "./photoLinks";
+import {
+  checkPhotoMetadata,
+  photoUrl,
+  readPhotoMetadata,
+  saveUpload,
+  sniffMediaType,
+  unsupportedMediaFormat,
+  type MediaType,
+  type PhotoFlag,
+} from "./photos";
+import { buildDriftReport, resyncSpreadsheet } from "./reconcile";
+import {
+  findActiveSalesman,
+  importSalesmen,
+  listSalesmen,
+  searchSalesmen,
+  setSalesmanActive,
+  updateSalesman,
+} from "./salesmen";
+import {
+  branchSchema,
+  branchUpdateSchema,
+  buildingTypeSchema,
+  changeAuthorSchema,
+  operatorSchema,
+  operatorUpdateSchema,
+  parseCoordinates,
+  salesmanSchema,
+  salesmanUpdateSchema,
+  submissionEditSchema,
+  submissionSchema,
+} from "./schemas";
+import {
+  isSheetConfigured,
+  SheetRowNotFoundError,
+  type SpreadsheetTarget,
+} from "./sheetSync";
+import { storage } from "./storage";
+import { listSubmissions, parseSubmissionListQuery } from "./submissionList";
+import {
+  cancelSubmission,
+  queueSubmissionSideEffects,
+  updateSubmission,
+} from "./submissions";
+import {
+  appendChunk,
+  attachUploads,
+  createUploadSession,
+  getUploadSession,
+  MAX_UPLOAD_SIZE,
+} from "./uploads";
+import { validate, validatePartial, type FieldError } from "./validation";
+import {
+  receiveWebhook,
+  WEBHOOK_NONCE_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from "./webhooks";
 
-// MySQL Database Configuration
-const dbConfig = {
-  host: DB_HOST,
-  user: DB_USER,
-  password: DB_PASSWORD,
-  database: DB_NAME,
-  waitForConnections: true,
-  connectionLimit: 10,
-  queueLimit: 0,
-};
-
-// Create MySQL pool
-const pool = mysql.createPool(dbConfig);
 export { pool };
 
 // Define types
@@ -42,6 +150,7 @@ type FormSubmission = {
   id: string;
   timestamp: string;
   salesmanName: string;
+  salesmanEmployeeId?: string;
   customerName: string;
   customerAddress: string;
   customerHomeNo: string;
@@ -53,19 +162,6 @@ type FormSubmission = {
   remarks?: string;
 };
 
-/**
- * Formats a JavaScript Date object into MySQL DATETIME format
- * Converts ISO format (2025-04-06T16:52:28.435Z) to MySQL format (2025-04-06 16:52:28)
- */
-function formatMySQLDateTime(date: Date): string {
-  return date.toISOString().slice(0, 19).replace("T", " ");
-}
-
-function getCurrentDateTimeInGMT7(date: Date): string {
-  const gmt7Time = new Date(date.getTime() + 7 * 60 * 60 * 1000); // Add 7 hours to UTC
-  return gmt7Time.toISOString().slice(0, 19).replace("T", " "); // Format as 'YYYY-MM-DD HH:mm:ss'
-}
-
 // Create app instance
 const app = new Hono();
 
@@ -78,12 +174,19 @@ app.use(
   "/api/*",
   cors({
     origin: "*",
-    allowMethods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
-    allowHeaders: ["Content-Type", "Authorization", "X-API-Key"],
+    allowMethods: ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
+    allowHeaders: [
+      "Content-Type",
+      "Authorization",
+      "X-API-Key",
+      "Idempotency-Key",
+      "Upload-Offset",
+    ],
     exposeHeaders: [
       "Content-Length",
       "X-RateLimit-Limit",
       "X-RateLimit-Remaining",
+      "Upload-Offset",
     ],
     maxAge: 600,
     credentials: true,
@@ -101,8 +204,22 @@ const apiKeyAuth = async (c: any, next: any) => {
   await next();
 };
 
-// Serve uploaded files
-app.use("/uploads/*", async (c, next) => {
+// Photos are readable with the admin API key or a signed photo link
+const photoAccess = async (c: any, next: any) => {
+  const token = c.req.query("token");
+  if (!token) {
+    return apiKeyAuth(c, next);
+  }
+
+  if (!verifyPhotoToken(token, c.req.param("id"), c.req.param("filename"))) {
+    return c.json({ error: "Invalid or expired photo link" }, 403);
+  }
+
+  await next();
+};
+
+// Serve uploaded files (protected admin endpoint)
+app.get("/uploads/*", apiKeyAuth, async (c) => {
   // Only serve valid file types
   const path = c.req.path.replace("/uploads/", "");
   const ext = extname(path).toLowerCase();
@@ -112,19 +229,25 @@ app.use("/uploads/*", async (c, next) => {
     return c.json({ error: "File type not allowed" }, 403);
   }
 
-  // Validate that the file exists in uploads directory
-  const filePath = join(UPLOADS_DIR, path);
+  // Validate that the file exists in storage
+  let file;
   try {
-    await stat(filePath);
+    file = await storage.open(decodeURIComponent(path));
   } catch (error) {
     return c.json({ error: "File not found" }, 404);
   }
+  if (!file) {
+    return c.json({ error: "File not found" }, 404);
+  }
 
-  await next();
+  return new Response(file.stream(), {
+    headers: {
+      "Content-Type": file.type || "application/octet-stream",
+      "Content-Length": String(file.size),
+    },
+  });
 });
 
-app.use("/uploads/*", serveStatic({ root: "./" }));
-
 // Serve static files from the Next.js output
 app.use("/*", serveStatic({ root: "./public" }));
 
@@ -137,18 +260,12 @@ app.get("/api/health", (c) => {
   });
 });
 
-// Salesman names endpoint
+// Salesman names endpoint; ?includeInactive=true also lists deactivated
+// salesmen
 app.get("/api/salesman", async (c) => {
   try {
-    const [rows] = await pool.execute<RowDataPacket[]>(
-      "SELECT name, employeeId, branchId FROM salesman ORDER BY name",
-    );
     return c.json(
-      rows.map((row) => ({
-        name: row.name,
-        employee_id: row.employeeId,
-        branch_id: row.branchId,
-      })),
+      await listSalesmen(c.req.query("includeInactive") === "true"),
     );
   } catch (error) {
     console.error("Error in /api/salesman:", error);
@@ -156,39 +273,17 @@ app.get("/api/salesman", async (c) => {
   }
 });
 
-// New endpoint: Search salesmen
+// New endpoint: Search active salesmen
 app.get("/api/salesman/search", async (c) => {
   try {
     const query = c.req.query("query") || "";
 
     // If query is empty, return a limited set (e.g., top 20 salesmen)
     if (!query.trim()) {
-      const [rows] = await pool.execute<RowDataPacket[]>(
-        "SELECT name, employeeId, branchId FROM salesman ORDER BY name LIMIT 20",
-      );
-      return c.json(
-        rows.map((row) => ({
-          name: row.name,
-          employee_id: row.employeeId,
-          branch_id: row.branchId,
-        })),
-      );
+      return c.json(await searchSalesmen("", 20));
     }
 
-    // If query is provided, search with LIKE
-    const searchPattern = `%${query}%`;
-    const [rows] = await pool.execute<RowDataPacket[]>(
-      "SELECT name, employeeId, branchId FROM salesman WHERE name LIKE ? OR employeeId LIKE ? OR branchId LIKE ? ORDER BY name LIMIT 50",
-      [searchPattern, searchPattern, searchPattern],
-    );
-
-    return c.json(
-      rows.map((row) => ({
-        name: row.name,
-        employee_id: row.employeeId,
-        branch_id: row.branchId,
-      })),
-    );
+    return c.json(await searchSalesmen(query, 50));
   } catch (error) {
     console.error("Error in /api/salesman/search:", error);
     // Return empty array instead of fallback data for search
@@ -212,42 +307,189 @@ app.get("/api/building-types", async (c) => {
   }
 });
 
-app.get("/api/submissions/:id/photos/:filename", async (c) => {
+// Coverage results reported near a point, so a salesman can see the likely
+// coverage before submitting, e.g. ?lat=3.59&lng=98.67&radius=300
+app.get("/api/coverage/nearby", async (c) => {
+  try {
+    const latitude = Number(c.req.query("lat"));
+    const longitude = Number(c.req.query("lng"));
+    if (
+      !c.req.query("lat") ||
+      !c.req.query("lng") ||
+      !(Math.abs(latitude) <= 90) ||
+      !(Math.abs(longitude) <= 180)
+    ) {
+      return c.json({ error: "lat and lng must be valid coordinates" }, 400);
+    }
+    const radiusParam = c.req.query("radius");
+    const radius = radiusParam
+      ? Number(radiusParam)
+      : NEARBY_DEFAULT_RADIUS_METERS;
+    if (!(radius > 0 && radius <= NEARBY_MAX_RADIUS_METERS)) {
+      return c.json(
+        {
+          error: `radius must be between 0 and ${NEARBY_MAX_RADIUS_METERS} meters`,
+        },
+        400,
+      );
+    }
+
+    const nearby = await findNearbyCoverage(latitude, longitude, radius);
+    return c.json({
+      latitude,
+      longitude,
+      radiusMeters: radius,
+      ...nearby,
+    });
+  } catch (error) {
+    console.error("Error in /api/coverage/nearby:", error);
+    return c.json({ error: "Server error" }, 500);
+  }
+});
+
+app.get("/api/submissions/:id/photos/:filename", photoAccess, async (c) => {
   try {
     const submissionId = c.req.param("id");
     const filename = c.req.param("filename");
 
     // Validate that the file exists in the database for the given submission ID
     const [rows] = await pool.execute<RowDataPacket[]>(
-      `SELECT filename FROM building_photos WHERE submission_id = ? AND filename = ?`,
-      [submissionId, filename],
+      `SELECT filename FROM building_photos WHERE submission_id = ? AND (filename = ? OR thumbnail_filename = ?)`,
+      [submissionId, filename, filename],
     );
 
     if (rows.length === 0) {
       return c.json({ error: "Photo not found for this submission" }, 404);
     }
 
-    // Construct the file path
-    const filePath = join(UPLOADS_DIR, filename);
-
-    // Check if the file exists on the server
-    if (!existsSync(filePath)) {
+    // Check if the file exists in storage
+    const file = await storage.open(filename);
+    if (!file) {
       return c.json({ error: "File not found on server" }, 404);
     }
 
     // Serve the file
-    const fileStream = createReadStream(filePath);
-    c.res.headers.set("Content-Type", "application/octet-stream");
-    return new Response(fileStream as any);
+    return new Response(file.stream(), {
+      headers: { "Content-Type": "application/octet-stream" },
+    });
   } catch (error) {
     console.error("Error fetching photo file:", error);
     return c.json({ error: "Server error" }, 500);
   }
 });
 
+// Start a resumable upload of a building photo or video
+app.post("/api/uploads", async (c) => {
+  try {
+    const { filename, size } = await c.req.json();
+
+    if (!filename || typeof filename !== "string" || filename.length > 255) {
+      return c.json({ error: "Valid filename is required" }, 400);
+    }
+    if (!Number.isInteger(size) || size <= 0 || size > MAX_UPLOAD_SIZE) {
+      return c.json(
+        {
+          error: `Size must be between 1 byte and ${MAX_UPLOAD_SIZE / 1024 / 1024}MB`,
+        },
+        400,
+      );
+    }
+
+    return c.json(await createUploadSession(filename, size), 201);
+  } catch (error) {
+    console.error("Error creating upload session:", error);
+    return c.json({ error: "Server error" }, 500);
+  }
+});
+
+// Upload progress, used to resume after a disconnect
+app.get("/api/uploads/:id", async (c) => {
+  try {
+    const session = await getUploadSession(c.req.param("id"));
+    if (!session) {
+      return c.json({ error: "Upload not found" }, 404);
+    }
+
+    c.header("Upload-Offset", String(session.offset));
+    return c.json(session);
+  } catch (error) {
+    console.error("Error fetching upload session:", error);
+    return c.json({ error: "Server error" }, 500);
+  }
+});
+
+// Append a chunk; the Upload-Offset header says where it starts
+app.patch("/api/uploads/:id", async (c) => {
+  try {
+    const offset = Number(c.req.header("Upload-Offset"));
+    if (!Number.isInteger(offset) || offset < 0) {
+      return c.json({ error: "Upload-Offset header is required" }, 400);
+    }
+
+    const chunk = new Uint8Array(await c.req.arrayBuffer());
+    if (chunk.length === 0) {
+      return c.json({ error: "Chunk is empty" }, 400);
+    }
+
+    const result = await appendChunk(c.req.param("id"), offset, chunk);
+    if (result.status === "not_found") {
+      return c.json({ error: "Upload not found" }, 404);
+    }
+
+    c.header("Upload-Offset", String(result.session.offset));
+    switch (result.status) {
+      case "closed":
+        return c.json(
+          { error: "Upload is complete or has expired", ...result.session },
+          410,
+        );
+      case "offset_mismatch":
+        return c.json(
+          {
+            error: "Chunk does not start at the upload offset",
+            ...result.session,
+          },
+          409,
+        );
+      case "too_large":
+        return c.json(
+          { error: "Chunk exceeds the declared size", ...result.session },
+          413,
+        );
+      case "unsupported_type":
+        return c.json(
+          {
+            error: result.format
+              ? `${result.format} are not supported, only JPEG, PNG and MP4 files are allowed`
+              : "Only JPEG, PNG and MP4 files are allowed",
+            ...result.session,
+          },
+          415,
+        );
+      case "failed":
+        return c.json(
+          {
+            error: `Upload could not be assembled: ${result.reason}`,
+            ...result.session,
+          },
+          422,
+        );
+      default:
+        return c.json(result.session);
+    }
+  } catch (error) {
+    console.error("Error appending upload chunk:", error);
+    return c.json({ error: "Server error" }, 500);
+  }
+});
+
 // Validate and save form submission
 app.post("/api/submit-form", async (c) => {
   let connection;
+  let committed = false;
+  // Files written for this request, deleted again if it isn't saved
+  const savedFiles: string[] = [];
+  let reservedIdempotencyKey: string | undefined;
   try {
     connection = await pool.getConnection();
     await connection.beginTransaction();
@@ -258,124 +500,230 @@ app.post("/api/submit-form", async (c) => {
     const now = new Date();
     const formattedTimestamp = formatMySQLDateTime(now);
 
-    // Extract form fields
-    const submission: Partial<FormSubmission> = {
-      id: randomUUID(),
-      timestamp: formattedTimestamp, // Using properly formatted timestamp for MySQL
-      salesmanName: formData.get("salesmanName") as string,
-      customerName: formData.get("customerName") as string,
-      customerAddress: formData.get("customerAddress") as string,
-      customerHomeNo: formData.get("customerHomeNo") as string,
-      village: formData.get("village") as string,
-      coordinates: formData.get("coordinates") as string,
-      buildingType: formData.get("buildingType") as string,
-      operators: (formData.getAll("operators") as string[]) || [],
-      buildingPhotos: [],
-      remarks: formData.get("remarks") as string,
-    };
-
-    // Validate required fields
-    const requiredFields = [
-      "salesmanName",
-      "customerName",
-      "customerAddress",
-      "customerHomeNo",
-      "village",
-      "coordinates",
-      "buildingType",
-    ];
-
-    const missingFields = requiredFields.filter(
-      (field) => !submission[field as keyof typeof submission],
-    );
+    // Extract and validate form fields
+    const validation = await validate(submissionSchema, {
+      salesmanName: formData.get("salesmanName"),
+      salesmanEmployeeId: formData.get("salesmanEmployeeId"),
+      customerName: formData.get("customerName"),
+      customerAddress: formData.get("customerAddress"),
+      customerHomeNo: formData.get("customerHomeNo"),
+      village: formData.get("village"),
+      coordinates: formData.get("coordinates"),
+      buildingType: formData.get("buildingType"),
+      operators: formData.getAll("operators"),
+      remarks: formData.get("remarks"),
+    });
+    if (!validation.success) {
+      return c.json(
+        {
+          success: false,
+          message: "Please correct the highlighted fields",
+          errors: validation.errors,
+        },
+        400,
+      );
+    }
 
-    if (missingFields.length > 0 || submission.operators!.length === 0) {
-      if (connection) connection.release();
+    // Submissions reference their salesman by employee ID, so renaming or
+    // deactivating the salesman later keeps them attached
+    const salesman = await findActiveSalesman({
+      employeeId: validation.value.salesmanEmployeeId,
+      name: validation.value.salesmanName,
+    });
+    if (!salesman || salesman.name !== validation.value.salesmanName) {
       return c.json(
         {
           success: false,
-          message: `Missing required fields: ${missingFields.join(", ")}${
-            missingFields.length > 0 && submission.operators!.length === 0
-              ? " and operators"
-              : submission.operators!.length === 0
-                ? "operators"
-                : ""
-          }`,
+          message: "Please correct the highlighted fields",
+          errors: [
+            {
+              field: "salesmanEmployeeId",
+              message: "Does not match the selected salesman",
+            },
+          ],
         },
         400,
       );
     }
 
-    // validate coordinates format
-    const coordinatesRegex = /^(-?\d+(\.\d+)?),\s*(-?\d+(\.\d+)?)$/;
-    if (
-      !(
-        submission?.coordinates &&
-        coordinatesRegex.test(submission?.coordinates)
-      )
-    ) {
-      if (connection) connection.release();
+    // The submission keeps the branch as it is now
+    const branch = await getBranch(salesman.branch_id);
+    const unofferedOperators = branch
+      ? validation.value.operators.filter(
+          (operator) => !branch.operators.includes(operator),
+        )
+      : [];
+    if (branch && unofferedOperators.length > 0) {
       return c.json(
         {
           success: false,
-          message: `Missing validation fields: coordinates`,
+          message: "Please correct the highlighted fields",
+          errors: [
+            {
+              field: "operators",
+              message: `Not offered in ${branch.name}: ${unofferedOperators.join(", ")}`,
+            },
+          ],
         },
         400,
       );
     }
 
-    let hasFSOperator = submission.operators?.includes("FS");
+    const submission: FormSubmission = {
+      id: randomUUID(),
+      timestamp: formattedTimestamp, // Using properly formatted timestamp for MySQL
+      ...validation.value,
+      salesmanEmployeeId: salesman.employee_id,
+      buildingPhotos: [],
+    };
 
     // Handle file uploads
     const files = formData.getAll("buildingPhotos") as File[];
+    // Files uploaded beforehand through the upload session API
+    const uploadIds = (formData.getAll("uploadIds") as string[]).filter(
+      Boolean,
+    );
 
-    if (files && files.length > 0) {
-      // Check file sizes
-      const maxFileSize = 10 * 1024 * 1024; // 10 MB in bytes
-      const totalFileSize = files.reduce((total, file) => total + file.size, 0);
-      if (totalFileSize > maxFileSize) {
-        if (connection) connection.release();
+    // A retried request with the same idempotency key gets the original
+    // submission back instead of creating (and uploading) a new one
+    const idempotencyKey =
+      c.req.header(IDEMPOTENCY_KEY_HEADER) ||
+      (formData.get("idempotencyKey") as string | null);
+    if (idempotencyKey) {
+      if (!isValidIdempotencyKey(idempotencyKey)) {
         return c.json(
           {
             success: false,
-            message: "Files must be less than 10MB each",
+            message: "Invalid idempotency key",
           },
           400,
         );
       }
 
-      // Create uploads directory if it doesn't exist
-      await mkdir(UPLOADS_DIR, { recursive: true });
+      const reservation = await reserveIdempotencyKey(
+        idempotencyKey,
+        hashSubmissionRequest({
+          ...submission,
+          id: undefined,
+          timestamp: undefined,
+          buildingPhotos: files.map((file) => [file.name, file.size]),
+          uploadIds,
+        }),
+        submission.id!,
+        now.toISOString(),
+      );
+      if (reservation.status === "mismatch") {
+        return c.json(
+          {
+            success: false,
+            message:
+              "Idempotency key was already used for a different submission",
+          },
+          422,
+        );
+      }
+      if (reservation.status === "replay") {
+        const [statusRows] = await pool.execute<RowDataPacket[]>(
+          `SELECT status FROM submissions WHERE id = ?`,
+          [reservation.submissionId],
+        );
+        return c.json(
+          {
+            success: true,
+            submissionId: reservation.submissionId,
+            timestamp: reservation.timestamp,
+            status: statusRows[0]?.status ?? null,
+            replayed: true,
+            processing: !reservation.completed,
+          },
+          reservation.completed ? 200 : 202,
+        );
+      }
+      reservedIdempotencyKey = idempotencyKey;
+    }
 
-      // Save files
-      for (const file of files) {
-        if (file.size > 0) {
-          // Generate safe filename
-          const originalName = file.name.replace(/[^a-zA-Z0-9.-]/g, "_");
-          const filename = `${Date.now()}-${originalName}`;
-          const path = join(UPLOADS_DIR, filename);
+    // Check file sizes
+    const maxFileSize = 10 * 1024 * 1024; // 10 MB in bytes
+    const totalFileSize = files.reduce((total, file) => total + file.size, 0);
+    if (totalFileSize > maxFileSize) {
+      return c.json(
+        {
+          success: false,
+          message: "Files must be less than 10MB in total",
+          errors: [
+            {
+              field: "buildingPhotos",
+              message: "Files must be less than 10MB in total",
+            },
+          ],
+        },
+        400,
+      );
+    }
 
-          await Bun.write(path, await file.arrayBuffer());
-          submission.buildingPhotos!.push(filename);
+    // Check file contents by their magic bytes, not their names
+    const uploads: { file: File; bytes: Uint8Array; mediaType: MediaType }[] =
+      [];
+    const fileErrors: FieldError[] = [];
+    // Formats like HEIC that are recognized but rejected answer 415
+    let unsupportedMedia = false;
+    for (const file of files) {
+      if (file.size > 0) {
+        const bytes = new Uint8Array(await file.arrayBuffer());
+        const mediaType = sniffMediaType(bytes);
+        if (mediaType) {
+          uploads.push({ file, bytes, mediaType });
+        } else {
+          const format = unsupportedMediaFormat(bytes);
+          unsupportedMedia ||= format !== null;
+          fileErrors.push({
+            field: "buildingPhotos",
+            message: format
+              ? `${file.name}: ${format} are not supported, only JPEG, PNG and MP4 files are allowed`
+              : `${file.name}: only JPEG, PNG and MP4 files are allowed`,
+          });
         }
       }
     }
 
-    const [salesmanRows] = await pool.execute<RowDataPacket[]>(
-      "SELECT * FROM salesman WHERE name = ?",
-      [submission.salesmanName],
+    // Claim files uploaded beforehand through the upload session API
+    const [photos, invalidUploadIds] = await attachUploads(
+      connection,
+      uploadIds,
+      submission.id,
     );
-    const salesman = salesmanRows ? salesmanRows[0] : null;
+    for (const uploadId of invalidUploadIds) {
+      fileErrors.push({
+        field: "uploadIds",
+        message: `Upload ${uploadId} is not complete, has expired or was already used`,
+      });
+    }
+
+    if (fileErrors.length > 0) {
+      return c.json(
+        {
+          success: false,
+          message: "Please correct the highlighted fields",
+          errors: fileErrors,
+        },
+        unsupportedMedia ? 415 : 400,
+      );
+    }
 
     // Insert submission into database
     await connection.execute(
       `INSERT INTO submissions
-      (id, timestamp, salesmanName, customerName, customerAddress, customerHomeNo, village, coordinates, buildingType, operators, remarks)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      (id, timestamp, salesmanName, salesmanEmployeeId, branchCode, branchName, branchTimezone, spreadsheetTargets, customerName, customerAddress, customerHomeNo, village, coordinates, buildingType, operators, remarks, status)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'received')`,
       [
         submission.id,
         submission.timestamp, // Now using the correctly formatted timestamp
         submission.salesmanName,
+        submission.salesmanEmployeeId,
+        branch?.code ?? null,
+        branch?.name ?? null,
+        branch?.timezone ?? null,
+        branch ? JSON.stringify(branch.spreadsheetTargets) : null,
         submission.customerName,
         submission.customerAddress,
         submission.customerHomeNo,
@@ -383,182 +731,125 @@ app.post("/api/submit-form", async (c) => {
         submission.coordinates,
         submission.buildingType,
         JSON.stringify(submission.operators),
-        submission.remarks,
+        submission.remarks ?? null,
       ],
     );
 
-    // Insert building photos if any
-    if (submission.buildingPhotos && submission.buildingPhotos.length > 0) {
-      for (const photo of submission.buildingPhotos) {
-        await connection.execute(
-          `INSERT INTO building_photos (submission_id, filename) VALUES (?, ?)`,
-          [submission.id, photo],
-        );
+    // Save files once the submission row is in, so a rejected request
+    // writes none
+    for (const upload of uploads) {
+      const { filename, thumbnailFilename } = await saveUpload(
+        upload.bytes,
+        upload.file.name,
+        upload.mediaType,
+      );
+      savedFiles.push(filename);
+      if (thumbnailFilename) {
+        savedFiles.push(thumbnailFilename);
       }
-    }
-
-    await connection.commit();
-    connection.release();
-
-    // send to spreadsheet
-    try {
-      const auth = new google.auth.GoogleAuth({
-        keyFile: process.env.SERVICE_ACCOUNT_JSON_KEY_FILE,
-        scopes: ["https://www.googleapis.com/auth/spreadsheets"],
+      photos.push({
+        filename,
+        thumbnailFilename,
+        mediaType: upload.mediaType,
+        metadata: await readPhotoMetadata(upload.bytes, upload.mediaType),
       });
-      const authClient = await auth.getClient();
-      const sheets = google.sheets({ version: "v4", auth: authClient as any });
-
-      const fsCheckCoverageSpreadsheetId =
-        process.env.FS_CHECK_COVERAGE_SPREADSHEET;
-      const allCheckCoverageSpreadsheetId =
-        process.env.ALL_CHECK_COVERAGE_SPREADSHEET;
-
-      const range = "Sheet1!A1"; // Just specify the sheet, not actual last row
-
-      let branch = "Medan";
-      if (salesman && salesman["branchId"] == "062") {
-        branch = "Bali";
-      } else if (salesman && salesman["branchId"] == "025") {
-        branch = "Nusa Id";
-      } else if (salesman && salesman["branchId"] == "027") {
-        branch = "Binjai";
-      } else if (salesman && salesman["branchId"] == "028") {
-        branch = "Nusafiber Selecta";
-      } else if (salesman && salesman["branchId"] == "029") {
-        branch = "Tj. Morawa";
-      }
+    }
 
-      const values = [
-        submission.id,
-        getCurrentDateTimeInGMT7(now),
-        submission.customerName,
-        submission.customerAddress + " " + submission.village,
-        submission.customerHomeNo,
-        submission.coordinates,
-        submission.salesmanName,
-        submission.buildingType,
-        submission.buildingPhotos
-          ? submission.buildingPhotos
-              .map(
-                (photo) =>
-                  `${process.env.API_URL}/${
-                    process.env.APP_ENV === "development" ? "api" : "xapi"
-                  }/submissions/${submission.id}/photos/${photo}`,
-              )
-              .join(", ")
-          : "",
-        submission.remarks,
-        branch,
-      ];
-      if (hasFSOperator) {
-        const response2 = await sheets.spreadsheets.values.append({
-          spreadsheetId: fsCheckCoverageSpreadsheetId,
-          range,
-          valueInputOption: "USER_ENTERED",
-          requestBody: {
-            values: [values],
-          },
-        });
-        if (response2.status === 200 || response2.status === 201) {
-          await connection.execute(
-            `UPDATE submissions SET writeToFSOperatorSpreadsheetAt = ? WHERE id = ?`,
-            [formattedTimestamp, submission.id],
-          );
+    // Check photos were taken here and now
+    const flags: (PhotoFlag & { photoFilename: string })[] = [];
+    const location = parseCoordinates(submission.coordinates)!;
+    for (const photo of photos) {
+      submission.buildingPhotos!.push(photo.filename);
+      if (photo.mediaType !== "video/mp4") {
+        for (const flag of checkPhotoMetadata(photo.metadata, location, now)) {
+          flags.push({ ...flag, photoFilename: photo.filename });
         }
       }
+    }
 
-      values.push(submission.operators?.join(", "));
-      const response1 = await sheets.spreadsheets.values.append({
-        spreadsheetId: allCheckCoverageSpreadsheetId,
-        range,
-        valueInputOption: "USER_ENTERED",
-        requestBody: {
-          values: [values],
-        },
-      });
-      if (response1.status == 200 || response1.status == 201) {
-        await connection.execute(
-          `UPDATE submissions SET writeToAllOperatorSpreadsheetAt = ? WHERE id = ?`,
-          [formattedTimestamp, submission.id],
-        );
-      }
-    } catch (error) {
-      console.error("error send to google sheets", error);
+    await recordSubmissionReceived(connection, submission.id!);
+    await saveSubmissionLocation(
+      connection,
+      submission.id!,
+      submission.coordinates,
+    );
+
+    // Insert building photos if any
+    for (const photo of photos) {
+      await connection.execute(
+        `INSERT INTO building_photos (submission_id, filename, media_type, thumbnail_filename, taken_at, latitude, longitude)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [
+          submission.id,
+          photo.filename,
+          photo.mediaType,
+          photo.thumbnailFilename,
+          photo.metadata.takenAt
+            ? formatMySQLDateTime(photo.metadata.takenAt)
+            : null,
+          photo.metadata.latitude,
+          photo.metadata.longitude,
+        ],
+      );
+    }
+    for (const flag of flags) {
+      await connection.execute(
+        `INSERT INTO submission_flags (submission_id, photo_filename, kind, detail, created_at) VALUES (?, ?, ?, ?, ?)`,
+        [
+          submission.id,
+          flag.photoFilename,
+          flag.kind,
+          flag.detail,
+          formattedTimestamp,
+        ],
+      );
     }
 
-    // send to bot check coverage fs
-    if (hasFSOperator) {
-      try {
-        const url =
-          process.env.FS_CHECK_COVERAGE_BOT_HOST + "/api/check-coverage";
-        const headers = {
-          "Content-Type": "application/json",
-          "x-api-key": process.env.FS_CHECK_COVERAGE_BOT_API_KEY,
-        };
-
-        const vill = submission.village?.split(",");
-        const residenceType =
-          submission.buildingType === "ruko" ? "ruko" : "perumahan";
-        const residenceName = residenceType == "ruko" ? "ruko" : "rumah";
-
-        const payload = {
-          operator: "fiberstar",
-          customer_name: submission.customerName,
-          street_name: submission.customerAddress,
-          home_no: submission.customerHomeNo,
-          latitude: submission.coordinates?.split(",")[0],
-          longitude: submission.coordinates?.split(",")[1],
-          province: vill?.[4],
-          city: vill?.[3],
-          subdistrict: vill?.[2],
-          village: vill?.[1],
-          postal_code: vill?.[0],
-          residence_type: residenceType,
-          residence_name: residenceName,
-          remarks: submission.remarks,
-          file: submission.buildingPhotos
-            ? submission.buildingPhotos
-                .map(
-                  (photo) =>
-                    `${process.env.API_URL}/${
-                      process.env.APP_ENV === "development" ? "api" : "xapi"
-                    }/submissions/${submission.id}/photos/${photo}`,
-                )
-                .join(", ")
-            : "",
-        };
-
-        // Make the POST request
-        const response = await axios.post(url, payload, { headers });
-        if (response.status === 200 || response.status === 201) {
-          const checkCoverageBotId = response.data.data[0]?.id;
-          await connection.execute(
-            `UPDATE submissions SET checkCoverageBotId = ? WHERE id = ?`,
-            [checkCoverageBotId, submission.id],
-          );
-        }
-      } catch (error) {
-        console.error("Error sending to bot check coverage fs:", error);
-      }
+    // Suspected duplicates of an earlier lead are held back from the
+    // spreadsheets and coverage bots until an admin reviews them
+    const duplicates = await findSuspectedDuplicates(
+      connection,
+      submission,
+      now,
+    );
+    if (duplicates.length > 0) {
+      await recordSuspectedDuplicates(connection, submission.id!, duplicates);
+    } else {
+      await queueSubmissionSideEffects(
+        connection,
+        submission.id!,
+        submission.operators!,
+      );
+    }
+
+    if (reservedIdempotencyKey) {
+      await completeIdempotencyKey(connection, reservedIdempotencyKey);
     }
 
+    await connection.commit();
+    committed = true;
+
+    // Deliver right away without holding up the response; the outbox cron
+    // job retries whatever fails here
+    deliverDueOutboxEvents(10, submission.id).catch((error) =>
+      console.error("Error delivering outbox events:", error),
+    );
+
     // Return ISO timestamp for API consistency, even though we store it differently in MySQL
     return c.json({
       success: true,
       submissionId: submission.id,
       timestamp: now.toISOString(),
+      status: "received",
+      suspectedDuplicate: duplicates.length > 0,
+      duplicates,
+      ...(duplicates.length > 0 && {
+        message:
+          "This house looks like it was already submitted. The submission was saved and will be reviewed before it is sent to the operators.",
+      }),
     });
   } catch (error) {
     console.error("Error processing form submission:", error);
-    if (connection) {
-      try {
-        await connection.rollback();
-      } catch (rollbackError) {
-        console.error("Error rolling back transaction:", rollbackError);
-      }
-      connection.release();
-    }
     return c.json(
       {
         success: false,
@@ -566,33 +857,84 @@ app.post("/api/submit-form", async (c) => {
       },
       500,
     );
+  } finally {
+    // Any response but a saved submission rolls everything back, so the
+    // client can retry with the same idempotency key
+    if (connection) {
+      if (!committed) {
+        try {
+          await connection.rollback();
+        } catch (rollbackError) {
+          console.error("Error rolling back transaction:", rollbackError);
+        }
+      }
+      connection.release();
+    }
+    if (!committed) {
+      for (const filename of savedFiles) {
+        try {
+          await storage.delete(filename);
+        } catch (deleteError) {
+          console.error(
+            `Error deleting unsaved upload ${filename}:`,
+            deleteError,
+          );
+        }
+      }
+    }
+    if (reservedIdempotencyKey && !committed) {
+      try {
+        await releaseIdempotencyKey(reservedIdempotencyKey);
+      } catch (releaseError) {
+        console.error("Error releasing idempotency key:", releaseError);
+      }
+    }
   }
 });
 
-// List submissions (protected admin endpoint)
+// List submissions a page at a time, e.g.
+// ?page=2&pageSize=50&sort=timestamp&order=desc&from=2025-05-01&branch=062
+// Dates are read and timestamps rendered in ?tz (default DEFAULT_TIMEZONE)
+// (protected admin endpoint)
 app.get("/api/submissions", apiKeyAuth, async (c) => {
   try {
-    const [submissionsRows] = await pool.execute<RowDataPacket[]>(`
-      SELECT s.*, GROUP_CONCAT(bp.filename) as photo_filenames
-      FROM submissions s
-      LEFT JOIN building_photos bp ON s.id = bp.submission_id
-      GROUP BY s.id
-      ORDER BY s.timestamp DESC
-    `);
+    const parsed = parseSubmissionListQuery(c.req.query());
+    if (!parsed.ok) {
+      return c.json({ error: parsed.error }, 400);
+    }
+    const { page, pageSize, timeZone } = parsed.query;
+
+    const { rows: submissionsRows, total } = await listSubmissions(
+      parsed.query,
+    );
+    const coverage = await loadCoverage(
+      submissionsRows.map((row) => row.id),
+      timeZone,
+    );
 
     // Format the data to match the expected structure
     const submissions = submissionsRows.map((row) => {
       const photoFiles = row.photo_filenames
         ? row.photo_filenames.split(",")
         : [];
+      // One entry per photo, empty for photos without a thumbnail (videos)
+      const thumbnailFiles: (string | null)[] = row.photo_filenames
+        ? row.thumbnail_filenames
+            .split(",")
+            .map((thumbnail: string) => thumbnail || null)
+        : [];
 
       // Convert MySQL datetime to ISO format for API consistency
-      const timestamp = new Date(row.timestamp).toISOString();
+      const timestamp = toZonedISOString(new Date(row.timestamp), timeZone);
 
       return {
         id: row.id,
         timestamp: timestamp,
         salesmanName: row.salesmanName,
+        salesmanEmployeeId: row.salesmanEmployeeId,
+        branchCode: row.branchCode,
+        branchName: row.branchName,
+        branchTimezone: row.branchTimezone,
         customerName: row.customerName,
         customerAddress: row.customerAddress,
         village: row.village, // Include village field that was missing
@@ -604,22 +946,77 @@ app.get("/api/submissions", apiKeyAuth, async (c) => {
             : row?.operators,
         remarks: row.remarks,
         buildingPhotos: photoFiles,
+        buildingPhotoUrls: photoFiles.map((photo: string) =>
+          photoUrl(row.id, photo),
+        ),
+        buildingPhotoThumbnails: thumbnailFiles,
+        buildingPhotoThumbnailUrls: thumbnailFiles.map((thumbnail) =>
+          thumbnail ? photoUrl(row.id, thumbnail) : null,
+        ),
+        cancelledAt: formatTimestamp(row.cancelledAt, timeZone),
+        cancelReason: row.cancelReason,
+        status: row.status,
+        coverage: coverage.get(row.id) || [],
       };
     });
 
-    return c.json(submissions);
+    return c.json({
+      submissions,
+      page,
+      pageSize,
+      total,
+      totalPages: Math.ceil(total / pageSize),
+    });
   } catch (error) {
     console.error("Error fetching submissions:", error);
-    return c.json([], 200);
+    return c.json({ error: "Server error" }, 500);
   }
 });
 
-// Get a single submission by ID
-app.get("/api/submissions/:id", apiKeyAuth, async (c) => {
+// Submissions as a GeoJSON FeatureCollection for the map dashboard, e.g.
+// ?bbox=98.5,3.4,98.8,3.7&operator=FS&status=covered&tz=Asia/Jakarta
+// (protected admin endpoint)
+app.get("/api/submissions.geojson", apiKeyAuth, async (c) => {
   try {
-    const id = c.req.param("id");
+    const bboxParam = c.req.query("bbox");
+    const bbox = bboxParam ? parseBoundingBox(bboxParam) : undefined;
+    if (bbox === null) {
+      return c.json({ error: "bbox must be minLng,minLat,maxLng,maxLat" }, 400);
+    }
+    const status = c.req.query("status");
+    if (status && !SUBMISSION_STATUSES.includes(status as SubmissionStatus)) {
+      return c.json({ error: "Invalid status" }, 400);
+    }
+    const timeZone = parseTimeZone(c.req.query("tz"));
+    if (!timeZone) {
+      return c.json({ error: "Invalid timezone" }, 400);
+    }
 
-    const [submissionRows] = await pool.execute<RowDataPacket[]>(
+    const features = await loadSubmissionFeatures({
+      bbox,
+      operator: c.req.query("operator") || undefined,
+      status: (status as SubmissionStatus) || undefined,
+      timeZone,
+    });
+    c.header("Content-Type", "application/geo+json");
+    return c.body(JSON.stringify(features));
+  } catch (error) {
+    console.error("Error building submissions GeoJSON:", error);
+    return c.json({ error: "Server error" }, 500);
+  }
+});
+
+// Get a single submission by ID. Timestamps are in ?tz, or by default in
+// the timezone of the branch the submission was made at.
+app.get("/api/submissions/:id", apiKeyAuth, async (c) => {
+  try {
+    const id = c.req.param("id");
+    const requestedTimeZone = c.req.query("tz");
+    if (requestedTimeZone && !parseTimeZone(requestedTimeZone)) {
+      return c.json({ error: "Invalid timezone" }, 400);
+    }
+
+    const [submissionRows] = await pool.execute<RowDataPacket[]>(
       `SELECT s.*, GROUP_CONCAT(bp.filename) as photo_filenames
        FROM submissions s
        LEFT JOIN building_photos bp ON s.id = bp.submission_id
@@ -637,13 +1034,36 @@ app.get("/api/submissions/:id", apiKeyAuth, async (c) => {
       ? row.photo_filenames.split(",")
       : [];
 
+    const [photoRows] = await pool.execute<RowDataPacket[]>(
+      `SELECT filename, media_type, thumbnail_filename, taken_at, latitude, longitude
+       FROM building_photos WHERE submission_id = ? ORDER BY id`,
+      [id],
+    );
+    const [flagRows] = await pool.execute<RowDataPacket[]>(
+      `SELECT photo_filename, kind, detail, created_at
+       FROM submission_flags WHERE submission_id = ? ORDER BY id`,
+      [id],
+    );
+
+    const timeZone =
+      requestedTimeZone || row?.branchTimezone || DEFAULT_TIMEZONE;
+    const [coverage, coverageHistory, statusHistory] = await Promise.all([
+      loadCoverage([id], timeZone),
+      loadCoverageTransitions(id, timeZone),
+      loadSubmissionTransitions(id, timeZone),
+    ]);
+
     // Convert MySQL datetime to ISO format for API consistency
-    const timestamp = new Date(row?.timestamp).toISOString();
+    const timestamp = toZonedISOString(new Date(row?.timestamp), timeZone);
 
     const submission = {
       id: row?.id,
       timestamp: timestamp,
       salesmanName: row?.salesmanName,
+      salesmanEmployeeId: row?.salesmanEmployeeId,
+      branchCode: row?.branchCode,
+      branchName: row?.branchName,
+      branchTimezone: row?.branchTimezone,
       customerName: row?.customerName,
       customerAddress: row?.customerAddress,
       village: row?.village, // Include village field that was missing
@@ -655,6 +1075,30 @@ app.get("/api/submissions/:id", apiKeyAuth, async (c) => {
           : row?.operators,
       buildingPhotos: photoFiles,
       remarks: row?.remarks,
+      cancelledAt: formatTimestamp(row?.cancelledAt, timeZone),
+      cancelReason: row?.cancelReason,
+      status: row?.status,
+      statusHistory,
+      photos: photoRows.map((photo) => ({
+        filename: photo.filename,
+        mediaType: photo.media_type,
+        url: photoUrl(id, photo.filename),
+        thumbnail: photo.thumbnail_filename,
+        thumbnailUrl: photo.thumbnail_filename
+          ? photoUrl(id, photo.thumbnail_filename)
+          : null,
+        takenAt: formatTimestamp(photo.taken_at, timeZone),
+        latitude: photo.latitude === null ? null : Number(photo.latitude),
+        longitude: photo.longitude === null ? null : Number(photo.longitude),
+      })),
+      flags: flagRows.map((flag) => ({
+        kind: flag.kind,
+        photo: flag.photo_filename,
+        detail: flag.detail,
+        createdAt: toZonedISOString(new Date(flag.created_at), timeZone),
+      })),
+      coverage: coverage.get(id) || [],
+      coverageHistory,
     };
 
     return c.json(submission);
@@ -664,33 +1108,515 @@ app.get("/api/submissions/:id", apiKeyAuth, async (c) => {
   }
 });
 
-// Add a new salesman
-app.post("/api/salesman", apiKeyAuth, async (c) => {
+// Correct a submission (protected admin endpoint)
+app.patch("/api/submissions/:id", apiKeyAuth, async (c) => {
   try {
-    const { name, employee_id, branch_id } = await c.req.json();
+    const body = await c.req.json();
+    const [author, changes] = await Promise.all([
+      validate(changeAuthorSchema, body),
+      validatePartial(submissionEditSchema, body),
+    ]);
+    if (!author.success || !changes.success) {
+      const errors = [
+        ...(author.success ? [] : author.errors),
+        ...(changes.success ? [] : changes.errors),
+      ];
+      return c.json({ error: errors[0]!.message, errors }, 400);
+    }
 
-    if (!name || typeof name !== "string" || name.trim() === "") {
-      return c.json({ error: "Valid name is required" }, 400);
+    const result = await updateSubmission(
+      c.req.param("id"),
+      changes.value,
+      author.value.changedBy,
+    );
+    if (result.status === "not_found") {
+      return c.json({ error: "Submission not found" }, 404);
     }
-    if (
-      !employee_id ||
-      typeof employee_id !== "string" ||
-      employee_id.trim() === ""
-    ) {
-      return c.json({ error: "Employee ID is required" }, 400);
+    if (result.status === "cancelled") {
+      return c.json({ error: "Submission is cancelled" }, 409);
     }
-    if (
-      !branch_id ||
-      typeof branch_id !== "string" ||
-      branch_id.trim() === ""
-    ) {
-      return c.json({ error: "Branch ID is required" }, 400);
+
+    deliverDueOutboxEvents(10, c.req.param("id")).catch((error) =>
+      console.error("Error delivering outbox events:", error),
+    );
+
+    return c.json({
+      success: true,
+      changedFields: result.changedFields,
+      status: result.submissionStatus,
+    });
+  } catch (error) {
+    console.error("Error updating submission:", error);
+    return c.json({ error: "Server error" }, 500);
+  }
+});
+
+// Cancel a submission (protected admin endpoint)
+app.post("/api/submissions/:id/cancel", apiKeyAuth, async (c) => {
+  try {
+    const author = await validate(changeAuthorSchema, await c.req.json());
+    if (!author.success) {
+      return c.json(
+        { error: author.errors[0]!.message, errors: author.errors },
+        400,
+      );
     }
 
+    const result = await cancelSubmission(
+      c.req.param("id"),
+      author.value.reason ?? null,
+      author.value.changedBy,
+    );
+    if (result.status === "not_found") {
+      return c.json({ error: "Submission not found" }, 404);
+    }
+    if (result.status === "cancelled") {
+      return c.json({ error: "Submission is already cancelled" }, 409);
+    }
+
+    deliverDueOutboxEvents(10, c.req.param("id")).catch((error) =>
+      console.error("Error delivering outbox events:", error),
+    );
+
+    return c.json({ success: true, status: result.submissionStatus });
+  } catch (error) {
+    console.error("Error cancelling submission:", error);
+    return c.json({ error: "Server error" }, 500);
+  }
+});
+
+// Change history of a submission (protected admin endpoint)
+app.get("/api/submissions/:id/revisions", apiKeyAuth, async (c) => {
+  try {
+    const timeZone = parseTimeZone(c.req.query("tz"));
+    if (!timeZone) {
+      return c.json({ error: "Invalid timezone" }, 400);
+    }
+
+    const [rows] = await pool.execute<RowDataPacket[]>(
+      `SELECT field, old_value, new_value, changed_by, changed_at
+       FROM submission_revisions
+       WHERE submission_id = ?
+       ORDER BY changed_at, id`,
+      [c.req.param("id")],
+    );
+
+    return c.json(
+      rows.map((row) => ({
+        field: row.field,
+        oldValue: row.old_value,
+        newValue: row.new_value,
+        changedBy: row.changed_by,
+        changedAt: toZonedISOString(new Date(row.changed_at), timeZone),
+      })),
+    );
+  } catch (error) {
+    console.error("Error fetching submission revisions:", error);
+    return c.json({ error: "Server error" }, 500);
+  }
+});
+
+// List suspected duplicate leads (protected admin endpoint)
+app.get("/api/duplicates", apiKeyAuth, async (c) => {
+  try {
+    const status = c.req.query("status") || "suspected";
+    if (!["suspected", "merged", "dismissed"].includes(status)) {
+      return c.json({ error: "Invalid status" }, 400);
+    }
+    const timeZone = parseTimeZone(c.req.query("tz"));
+    if (!timeZone) {
+      return c.json({ error: "Invalid timezone" }, 400);
+    }
+
+    const [rows] = await pool.execute<RowDataPacket[]>(
+      `SELECT d.id, d.status, d.distance_meters, d.same_home_no, d.detected_at, d.resolved_at,
+         s.id AS s_id, s.timestamp AS s_timestamp, s.salesmanName AS s_salesmanName,
+         s.customerName AS s_customerName, s.customerHomeNo AS s_customerHomeNo,
+         s.village AS s_village, s.coordinates AS s_coordinates,
+         o.id AS o_id, o.timestamp AS o_timestamp, o.salesmanName AS o_salesmanName,
+         o.customerName AS o_customerName, o.customerHomeNo AS o_customerHomeNo,
+         o.village AS o_village, o.coordinates AS o_coordinates
+       FROM submission_duplicates d
+       JOIN submissions s ON s.id = d.submission_id
+       JOIN submissions o ON o.id = d.duplicate_of_id
+       WHERE d.status = ?
+       ORDER BY d.detected_at DESC
+       LIMIT 200`,
+      [status],
+    );
+
+    const summary = (row: RowDataPacket, prefix: "s" | "o") => ({
+      id: row[`${prefix}_id`],
+      timestamp: toZonedISOString(
+        new Date(row[`${prefix}_timestamp`]),
+        timeZone,
+      ),
+      salesmanName: row[`${prefix}_salesmanName`],
+      customerName: row[`${prefix}_customerName`],
+      customerHomeNo: row[`${prefix}_customerHomeNo`],
+      village: row[`${prefix}_village`],
+      coordinates: row[`${prefix}_coordinates`],
+    });
+
+    return c.json(
+      rows.map((row) => ({
+        id: row.id,
+        status: row.status,
+        distanceMeters: row.distance_meters,
+        sameHomeNo: row.same_home_no == 1,
+        detectedAt: toZonedISOString(new Date(row.detected_at), timeZone),
+        resolvedAt: formatTimestamp(row.resolved_at, timeZone),
+        submission: summary(row, "s"),
+        duplicateOf: summary(row, "o"),
+      })),
+    );
+  } catch (error) {
+    console.error("Error fetching duplicates:", error);
+    return c.json({ error: "Server error" }, 500);
+  }
+});
+
+// Merge a suspected duplicate into the earlier submission, or dismiss it
+app.post(
+  "/api/duplicates/:id/:action{merge|dismiss}",
+  apiKeyAuth,
+  async (c) => {
+    try {
+      const id = Number(c.req.param("id"));
+      if (!Number.isInteger(id)) {
+        return c.json({ error: "Invalid duplicate ID" }, 400);
+      }
+
+      const result = await resolveDuplicate(
+        id,
+        c.req.param("action") as "merge" | "dismiss",
+      );
+      if (result.status === "not_found") {
+        return c.json({ error: "Duplicate not found" }, 404);
+      }
+      if (result.status === "already_resolved") {
+        return c.json({ error: "Duplicate already resolved" }, 409);
+      }
+
+      if (result.released) {
+        deliverDueOutboxEvents(10).catch((error) =>
+          console.error("Error delivering outbox events:", error),
+        );
+      }
+
+      return c.json({ success: true, released: result.released });
+    } catch (error) {
+      console.error("Error resolving duplicate:", error);
+      return c.json({ error: "Server error" }, 500);
+    }
+  },
+);
+
+// List outbox events, e.g. the dead-lettered ones (protected admin endpoint)
+app.get("/api/outbox", apiKeyAuth, async (c) => {
+  try {
+    const status = c.req.query("status") || "dead";
+    if (!["pending", "delivered", "dead"].includes(status)) {
+      return c.json({ error: "Invalid status" }, 400);
+    }
+
+    const [rows] = await pool.execute<RowDataPacket[]>(
+      `SELECT id, submission_id, kind, payload, status, attempts, last_error, next_attempt_at, created_at, delivered_at
+       FROM outbox WHERE status = ? ORDER BY created_at DESC LIMIT 200`,
+      [status],
+    );
+
+    return c.json(
+      rows.map((row) => ({
+        id: row.id,
+        submissionId: row.submission_id,
+        kind: row.kind,
+        payload:
+          typeof row.payload === "string"
+            ? JSON.parse(row.payload)
+            : row.payload,
+        status: row.status,
+        attempts: row.attempts,
+        lastError: row.last_error,
+        nextAttemptAt: new Date(row.next_attempt_at).toISOString(),
+        createdAt: new Date(row.created_at).toISOString(),
+        deliveredAt: row.delivered_at
+          ? new Date(row.delivered_at).toISOString()
+          : null,
+      })),
+    );
+  } catch (error) {
+    console.error("Error fetching outbox events:", error);
+    return c.json({ error: "Server error" }, 500);
+  }
+});
+
+// Requeue a dead-lettered outbox event
+app.post("/api/outbox/:id/retry", apiKeyAuth, async (c) => {
+  try {
+    const id = Number(c.req.param("id"));
+    if (!Number.isInteger(id)) {
+      return c.json({ error: "Invalid outbox event ID" }, 400);
+    }
+
+    if (!(await retryOutboxEvent(id))) {
+      return c.json({ error: "Dead outbox event not found" }, 404);
+    }
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Error retrying outbox event:", error);
+    return c.json({ error: "Server error" }, 500);
+  }
+});
+
+// Coverage result callbacks from the coverage bot, signed with the shared
+// webhook secret
+app.post("/api/webhooks/coverage-bot", async (c) => {
+  try {
+    const rawBody = await c.req.text();
+    const received = await receiveWebhook(
+      {
+        signature: c.req.header(WEBHOOK_SIGNATURE_HEADER),
+        timestamp: c.req.header(WEBHOOK_TIMESTAMP_HEADER),
+        nonce: c.req.header(WEBHOOK_NONCE_HEADER),
+        body: rawBody,
+      },
+      async () => {
+        let body: unknown;
+        try {
+          body = JSON.parse(rawBody);
+        } catch {
+          return c.json({ error: "Invalid JSON" }, 400);
+        }
+
+        let result: CoverageCallbackResult;
+        try {
+          result = await handleCoverageCallback(body);
+        } catch (error) {
+          if (!(error instanceof SheetRowNotFoundError)) {
+            throw error;
+          }
+          // The result is stored; the check stays open so polling writes
+          // it to the sheet once the row exists
+          console.error("Coverage result not written to spreadsheet:", error);
+          return c.json({ success: true });
+        }
+        if (result.status === "ignored") {
+          return c.json({ error: "Unrecognized callback" }, 400);
+        }
+        if (result.status === "not_found") {
+          return c.json({ error: "Coverage check not found" }, 404);
+        }
+
+        return c.json({ success: true });
+      },
+    );
+    switch (received.status) {
+      case "not_configured":
+        return c.json({ error: "Webhook not configured" }, 503);
+      case "invalid_signature":
+        return c.json({ error: "Invalid signature" }, 401);
+      case "stale":
+        return c.json({ error: "Request timestamp too old" }, 401);
+      case "replayed":
+        return c.json({ error: "Request already received" }, 409);
+      default:
+        return received.result;
+    }
+  } catch (error) {
+    console.error("Error handling coverage bot callback:", error);
+    return c.json({ error: "Server error" }, 500);
+  }
+});
+
+// The spreadsheet a route's :target names, or null if there is none
+function findSpreadsheetTarget(name: string): SpreadsheetTarget | null {
+  return spreadsheetTargets().find((target) => target === name) ?? null;
+}
+
+// Compare an operator spreadsheet with the submissions table
+app.get("/api/spreadsheets/:target/drift", apiKeyAuth, async (c) => {
+  try {
+    const target = findSpreadsheetTarget(c.req.param("target"));
+    if (!target) {
+      return c.json({ error: "Spreadsheet not found" }, 404);
+    }
+    if (!isSheetConfigured(target)) {
+      return c.json({ error: "Spreadsheet not configured" }, 404);
+    }
+    const timeZone = parseTimeZone(c.req.query("tz"));
+    if (!timeZone) {
+      return c.json({ error: "Invalid timezone" }, 400);
+    }
+    const range = parseDateRange(
+      c.req.query("from"),
+      c.req.query("to"),
+      timeZone,
+    );
+    if (!range) {
+      return c.json({ error: "Invalid date range" }, 400);
+    }
+
+    return c.json(await buildDriftReport(target, range, timeZone));
+  } catch (error) {
+    console.error("Error building spreadsheet drift report:", error);
+    return c.json({ error: "Server error" }, 500);
+  }
+});
+
+// Write the submissions of a date range that are missing from a spreadsheet
+app.post("/api/spreadsheets/:target/resync", apiKeyAuth, async (c) => {
+  try {
+    const target = findSpreadsheetTarget(c.req.param("target"));
+    if (!target) {
+      return c.json({ error: "Spreadsheet not found" }, 404);
+    }
+    if (!isSheetConfigured(target)) {
+      return c.json({ error: "Spreadsheet not configured" }, 404);
+    }
+    const timeZone = parseTimeZone(c.req.query("tz"));
+    if (!timeZone) {
+      return c.json({ error: "Invalid timezone" }, 400);
+    }
+    const range = parseDateRange(
+      c.req.query("from"),
+      c.req.query("to"),
+      timeZone,
+    );
+    if (!range) {
+      return c.json({ error: "Invalid date range" }, 400);
+    }
+
+    return c.json(await resyncSpreadsheet(target, range));
+  } catch (error) {
+    console.error("Error resyncing spreadsheet:", error);
+    return c.json({ error: "Server error" }, 500);
+  }
+});
+
+// Coverage figures grouped by area, operator, salesman or branch, e.g.
+// ?from=2025-05-01&to=2025-05-31&tz=Asia/Makassar&operator=FS&format=csv
+// (protected admin endpoint)
+app.get(
+  "/api/analytics/coverage/:dimension{province|city|district|village|operator|salesman|branch}",
+  apiKeyAuth,
+  async (c) => {
+    try {
+      const dimension = c.req.param("dimension") as AnalyticsDimension;
+      const timeZone = parseTimeZone(c.req.query("tz"));
+      if (!timeZone) {
+        return c.json({ error: "Invalid timezone" }, 400);
+      }
+      const range = parseDateRange(
+        c.req.query("from"),
+        c.req.query("to"),
+        timeZone,
+      );
+      if (!range) {
+        return c.json({ error: "Invalid date range" }, 400);
+      }
+      const format = c.req.query("format") || "json";
+      if (format !== "json" && format !== "csv") {
+        return c.json({ error: "Invalid format" }, 400);
+      }
+
+      const rows = await buildCoverageAnalytics(
+        dimension,
+        range,
+        c.req.query("operator") || undefined,
+      );
+      if (format === "csv") {
+        c.header("Content-Type", "text/csv; charset=utf-8");
+        c.header(
+          "Content-Disposition",
+          `attachment; filename="coverage-by-${dimension}.csv"`,
+        );
+        return c.body(coverageAnalyticsCsv(dimension, rows));
+      }
+      return c.json({
+        dimension,
+        timeZone,
+        from: range.from ? toZonedISOString(range.from, timeZone) : null,
+        to: range.to ? toZonedISOString(range.to, timeZone) : null,
+        rows,
+      });
+    } catch (error) {
+      console.error("Error building coverage analytics:", error);
+      return c.json({ error: "Server error" }, 500);
+    }
+  },
+);
+
+// Background jobs and their last run (protected admin endpoint)
+app.get("/api/jobs", apiKeyAuth, async (c) => {
+  try {
+    const lastRuns = await loadLastJobRuns();
+    return c.json(
+      allJobs().map((job) => ({
+        name: job.name,
+        schedule: job.schedule,
+        description: job.description,
+        lastRun: lastRuns.get(job.name) ?? null,
+      })),
+    );
+  } catch (error) {
+    console.error("Error fetching jobs:", error);
+    return c.json({ error: "Server error" }, 500);
+  }
+});
+
+// Run history of a job
+app.get("/api/jobs/:name/runs", apiKeyAuth, async (c) => {
+  try {
+    const name = c.req.param("name");
+    if (!getJob(name)) {
+      return c.json({ error: "Job not found" }, 404);
+    }
+    return c.json(await loadJobRuns(name));
+  } catch (error) {
+    console.error("Error fetching job runs:", error);
+    return c.json({ error: "Server error" }, 500);
+  }
+});
+
+// Run a job now, unless it is already running somewhere
+app.post("/api/jobs/:name/run", apiKeyAuth, async (c) => {
+  try {
+    const result = await runJob(c.req.param("name"), "manual");
+    if (result.status === "not_found") {
+      return c.json({ error: "Job not found" }, 404);
+    }
+    if (result.status === "locked") {
+      return c.json({ error: "Job is already running" }, 409);
+    }
+
+    return c.json({ success: true, runId: result.runId }, 202);
+  } catch (error) {
+    console.error("Error triggering job:", error);
+    return c.json({ error: "Server error" }, 500);
+  }
+});
+
+// Add a new salesman
+app.post("/api/salesman", apiKeyAuth, async (c) => {
+  try {
+    const validation = await validate(salesmanSchema, await c.req.json());
+    if (!validation.success) {
+      return c.json(
+        {
+          error: validation.errors[0]!.message,
+          errors: validation.errors,
+        },
+        400,
+      );
+    }
+    const { name, employee_id, branch_id } = validation.value;
+
     // Check if the salesman already exists
     const [existingRows] = await pool.execute<RowDataPacket[]>(
       "SELECT * FROM salesman WHERE employeeId = ?",
-      [employee_id ? employee_id.trim() : ""],
+      [employee_id],
     );
 
     if (existingRows.length > 0) {
@@ -700,18 +1626,11 @@ app.post("/api/salesman", apiKeyAuth, async (c) => {
     // Add the new salesman
     await pool.execute(
       "INSERT INTO salesman (name, employeeId, branchId) VALUES (?, ?, ?)",
-      [name.trim(), employee_id.trim(), branch_id.trim()],
+      [name, employee_id, branch_id],
     );
 
     // Get all salesmen to return in the response
-    const [rows] = await pool.execute<RowDataPacket[]>(
-      "SELECT name, employeeId, branchId FROM salesman ORDER BY name",
-    );
-    const salesmanData = rows.map((row) => ({
-      name: row.name,
-      employee_id: row.employeeId,
-      branch_id: row.branchId,
-    }));
+    const salesmanData = await listSalesmen(true);
 
     return c.json({ success: true, salesmanData });
   } catch (error) {
@@ -720,7 +1639,38 @@ app.post("/api/salesman", apiKeyAuth, async (c) => {
   }
 });
 
-// Delete a salesman by employeeId
+// Rename a salesman or move them to another branch
+app.put("/api/salesman/:employeeId", apiKeyAuth, async (c) => {
+  try {
+    const validation = await validate(salesmanUpdateSchema, await c.req.json());
+    if (!validation.success) {
+      return c.json(
+        {
+          error: validation.errors[0]!.message,
+          errors: validation.errors,
+        },
+        400,
+      );
+    }
+
+    const result = await updateSalesman(
+      c.req.param("employeeId").trim(),
+      validation.value,
+    );
+    if (result.status === "not_found") {
+      return c.json({ error: "Salesman not found" }, 404);
+    }
+
+    const salesmanData = await listSalesmen(true);
+    return c.json({ success: true, salesman: result.salesman, salesmanData });
+  } catch (error) {
+    console.error("Error updating salesman:", error);
+    return c.json({ error: "Server error" }, 500);
+  }
+});
+
+// Deactivate a salesman by employeeId. They are hidden from the form but
+// their submissions keep referencing them.
 app.delete("/api/salesman/:employeeId", apiKeyAuth, async (c) => {
   try {
     const employeeId = c.req.param("employeeId");
@@ -729,34 +1679,302 @@ app.delete("/api/salesman/:employeeId", apiKeyAuth, async (c) => {
       return c.json({ error: "Employee ID is required" }, 400);
     }
 
-    // Check if salesman exists
-    const [existingRows] = await pool.execute<RowDataPacket[]>(
-      "SELECT * FROM salesman WHERE employeeId = ?",
-      [employeeId.trim()],
-    );
-
-    if (existingRows.length === 0) {
+    const result = await setSalesmanActive(employeeId.trim(), false);
+    if (result.status === "not_found") {
       return c.json({ error: "Salesman not found" }, 404);
     }
 
-    // Delete the salesman
-    await pool.execute("DELETE FROM salesman WHERE employeeId = ?", [
-      employeeId.trim(),
-    ]);
-
     // Return updated list
-    const [rows] = await pool.execute<RowDataPacket[]>(
-      "SELECT name, employeeId, branchId FROM salesman ORDER BY name",
+    const salesmanData = await listSalesmen(true);
+    return c.json({ success: true, salesmanData });
+  } catch (error) {
+    console.error("Error deactivating salesman:", error);
+    return c.json({ error: "Server error" }, 500);
+  }
+});
+
+// Show a deactivated salesman in the form again
+app.post("/api/salesman/:employeeId/reactivate", apiKeyAuth, async (c) => {
+  try {
+    const result = await setSalesmanActive(
+      c.req.param("employeeId").trim(),
+      true,
     );
-    const salesmanData = rows.map((row) => ({
-      name: row.name,
-      employee_id: row.employeeId,
-      branch_id: row.branchId,
-    }));
+    if (result.status === "not_found") {
+      return c.json({ error: "Salesman not found" }, 404);
+    }
 
+    const salesmanData = await listSalesmen(true);
     return c.json({ success: true, salesmanData });
   } catch (error) {
-    console.error("Error deleting salesman:", error);
+    console.error("Error reactivating salesman:", error);
+    return c.json({ error: "Server error" }, 500);
+  }
+});
+
+// Create or update salesmen from a CSV roster (name, employee_id,
+// branch_id), sent as the request body or as a `file` form field.
+// ?dryRun=true only reports the changes; ?deactivateMissing=true also
+// deactivates active salesmen missing from the roster.
+app.post("/api/salesman/import", apiKeyAuth, async (c) => {
+  try {
+    let csv: string;
+    if (c.req.header("Content-Type")?.startsWith("multipart/form-data")) {
+      const file = (await c.req.formData()).get("file");
+      if (!(file instanceof File)) {
+        return c.json({ error: "A CSV file is required" }, 400);
+      }
+      csv = await file.text();
+    } else {
+      csv = await c.req.text();
+    }
+
+    const result = await importSalesmen(csv, {
+      dryRun: c.req.query("dryRun") === "true",
+      deactivateMissing: c.req.query("deactivateMissing") === "true",
+    });
+    return c.json(result, result.errors.length > 0 ? 400 : 200);
+  } catch (error) {
+    console.error("Error importing salesmen:", error);
+    return c.json({ error: "Server error" }, 500);
+  }
+});
+
+// Branches; ?includeInactive=true also lists closed ones
+app.get("/api/branches", async (c) => {
+  try {
+    return c.json(
+      await listBranches(c.req.query("includeInactive") === "true"),
+    );
+  } catch (error) {
+    console.error("Error in /api/branches:", error);
+    return c.json({ error: "Server error" }, 500);
+  }
+});
+
+// Add a new branch
+app.post("/api/branches", apiKeyAuth, async (c) => {
+  try {
+    const validation = await validate(branchSchema, await c.req.json());
+    if (!validation.success) {
+      return c.json(
+        {
+          error: validation.errors[0]!.message,
+          errors: validation.errors,
+        },
+        400,
+      );
+    }
+    const { code, ...fields } = validation.value;
+
+    const result = await createBranch(code, {
+      ...fields,
+      spreadsheetTargets: fields.spreadsheetTargets as SpreadsheetTarget[],
+    });
+    if (result.status === "exists") {
+      return c.json({ error: "Branch already exists" }, 409);
+    }
+    return c.json({ success: true, branch: result.branch }, 201);
+  } catch (error) {
+    console.error("Error adding branch:", error);
+    return c.json({ error: "Server error" }, 500);
+  }
+});
+
+// Change a branch. Submissions already made keep the branch as it was.
+app.put("/api/branches/:code", apiKeyAuth, async (c) => {
+  try {
+    const validation = await validate(branchUpdateSchema, await c.req.json());
+    if (!validation.success) {
+      return c.json(
+        {
+          error: validation.errors[0]!.message,
+          errors: validation.errors,
+        },
+        400,
+      );
+    }
+
+    const result = await updateBranch(c.req.param("code"), {
+      ...validation.value,
+      spreadsheetTargets: validation.value
+        .spreadsheetTargets as SpreadsheetTarget[],
+    });
+    if (result.status === "not_found") {
+      return c.json({ error: "Branch not found" }, 404);
+    }
+    return c.json({ success: true, branch: result.branch });
+  } catch (error) {
+    console.error("Error updating branch:", error);
+    return c.json({ error: "Server error" }, 500);
+  }
+});
+
+// Close a branch: no new salesmen can be added to it
+app.delete("/api/branches/:code", apiKeyAuth, async (c) => {
+  try {
+    const result = await setBranchActive(c.req.param("code"), false);
+    if (result.status === "not_found") {
+      return c.json({ error: "Branch not found" }, 404);
+    }
+    return c.json({ success: true, branch: result.branch });
+  } catch (error) {
+    console.error("Error closing branch:", error);
+    return c.json({ error: "Server error" }, 500);
+  }
+});
+
+// Open a closed branch again
+app.post("/api/branches/:code/reactivate", apiKeyAuth, async (c) => {
+  try {
+    const result = await setBranchActive(c.req.param("code"), true);
+    if (result.status === "not_found") {
+      return c.json({ error: "Branch not found" }, 404);
+    }
+    return c.json({ success: true, branch: result.branch });
+  } catch (error) {
+    console.error("Error reopening branch:", error);
+    return c.json({ error: "Server error" }, 500);
+  }
+});
+
+// Get operators for the form, e.g. ?branch=062 for the ones a branch offers
+app.get("/api/operators", async (c) => {
+  try {
+    const branch = c.req.query("branch");
+    const operators = await listOperators(
+      c.req.query("includeInactive") === "true",
+    );
+    return c.json(
+      branch
+        ? operators.filter((operator) => operator.branches.includes(branch))
+        : operators,
+    );
+  } catch (error) {
+    console.error("Error in /api/operators:", error);
+    return c.json({ error: "Server error" }, 500);
+  }
+});
+
+// An operator can only be checked automatically through its adapter
+function checkAutomatedCheck(code: string, automatedCheck: boolean) {
+  return automatedCheck && !getOperatorAdapter(code)
+    ? [
+        {
+          field: "automatedCheck",
+          message: `No coverage checker is available for ${code}`,
+        },
+      ]
+    : [];
+}
+
+// Add a new operator
+app.post("/api/operators", apiKeyAuth, async (c) => {
+  try {
+    const validation = await validate(operatorSchema, await c.req.json());
+    if (!validation.success) {
+      return c.json(
+        {
+          error: validation.errors[0]!.message,
+          errors: validation.errors,
+        },
+        400,
+      );
+    }
+    const { code, spreadsheetTarget, automatedCheck, ...fields } =
+      validation.value;
+    const errors = checkAutomatedCheck(code, Boolean(automatedCheck));
+    if (errors.length > 0) {
+      return c.json({ error: errors[0]!.message, errors }, 400);
+    }
+
+    const result = await createOperator(code, {
+      ...fields,
+      spreadsheetTarget: (spreadsheetTarget as SpreadsheetTarget) ?? null,
+      automatedCheck: Boolean(automatedCheck),
+    });
+    if (result.status === "exists") {
+      return c.json({ error: "Operator already exists" }, 409);
+    }
+    return c.json({ success: true, operator: result.operator }, 201);
+  } catch (error) {
+    console.error("Error adding operator:", error);
+    return c.json({ error: "Server error" }, 500);
+  }
+});
+
+// Change an operator. Fields left out of the request keep their value, and
+// a null spreadsheetTarget stops feeding the operator's spreadsheet.
+// Submissions already made keep the spreadsheet rows and coverage checks they
+// were queued with.
+app.put("/api/operators/:code", apiKeyAuth, async (c) => {
+  try {
+    const validation = await validatePartial(
+      operatorUpdateSchema,
+      await c.req.json(),
+    );
+    if (!validation.success) {
+      return c.json(
+        {
+          error: validation.errors[0]!.message,
+          errors: validation.errors,
+        },
+        400,
+      );
+    }
+    const { name, branches, spreadsheetTarget, automatedCheck } =
+      validation.value;
+    const errors = checkAutomatedCheck(
+      c.req.param("code"),
+      Boolean(automatedCheck),
+    );
+    if (errors.length > 0) {
+      return c.json({ error: errors[0]!.message, errors }, 400);
+    }
+
+    // validatePartial only returns the fields present in the request
+    const result = await updateOperator(c.req.param("code"), {
+      ...(name !== undefined && { name }),
+      ...(branches !== undefined && { branches }),
+      ...("spreadsheetTarget" in validation.value && {
+        spreadsheetTarget: (spreadsheetTarget as SpreadsheetTarget) ?? null,
+      }),
+      ...(automatedCheck !== undefined && { automatedCheck }),
+    });
+    if (result.status === "not_found") {
+      return c.json({ error: "Operator not found" }, 404);
+    }
+    return c.json({ success: true, operator: result.operator });
+  } catch (error) {
+    console.error("Error updating operator:", error);
+    return c.json({ error: "Server error" }, 500);
+  }
+});
+
+// Retire an operator: the form stops offering it
+app.delete("/api/operators/:code", apiKeyAuth, async (c) => {
+  try {
+    const result = await setOperatorActive(c.req.param("code"), false);
+    if (result.status === "not_found") {
+      return c.json({ error: "Operator not found" }, 404);
+    }
+    return c.json({ success: true, operator: result.operator });
+  } catch (error) {
+    console.error("Error retiring operator:", error);
+    return c.json({ error: "Server error" }, 500);
+  }
+});
+
+// Offer a retired operator again
+app.post("/api/operators/:code/reactivate", apiKeyAuth, async (c) => {
+  try {
+    const result = await setOperatorActive(c.req.param("code"), true);
+    if (result.status === "not_found") {
+      return c.json({ error: "Operator not found" }, 404);
+    }
+    return c.json({ success: true, operator: result.operator });
+  } catch (error) {
+    console.error("Error reactivating operator:", error);
     return c.json({ error: "Server error" }, 500);
   }
 });
@@ -764,16 +1982,22 @@ app.delete("/api/salesman/:employeeId", apiKeyAuth, async (c) => {
 // Add a new building type
 app.post("/api/building-types", apiKeyAuth, async (c) => {
   try {
-    const { type } = await c.req.json();
-
-    if (!type || typeof type !== "string" || type.trim() === "") {
-      return c.json({ error: "Valid building type is required" }, 400);
+    const validation = await validate(buildingTypeSchema, await c.req.json());
+    if (!validation.success) {
+      return c.json(
+        {
+          error: validation.errors[0]!.message,
+          errors: validation.errors,
+        },
+        400,
+      );
     }
+    const { type } = validation.value;
 
     // Check if the building type already exists
     const [existingRows] = await pool.execute<RowDataPacket[]>(
       "SELECT * FROM building_types WHERE type = ?",
-      [type.trim()],
+      [type],
     );
 
     if (existingRows.length > 0) {
@@ -781,9 +2005,7 @@ app.post("/api/building-types", apiKeyAuth, async (c) => {
     }
 
     // Add the new building type
-    await pool.execute("INSERT INTO building_types (type) VALUES (?)", [
-      type.trim(),
-    ]);
+    await pool.execute("INSERT INTO building_types (type) VALUES (?)", [type]);
 
     // Get all building types to return in the response
     const [rows] = await pool.execute<RowDataPacket[]>(
@@ -854,6 +2076,10 @@ app.onError((err, c) => {
   );
 });
 
+checkServerConfig();
+registerCronJobs();
+startJobScheduler();
+
 export default {
   port: Number(PORT),
   fetch: app.fetch,
@@ -113,6 +113,26 @@ export async function migrate() {
       "002_add_branchid_to_salesman",
       "003_add_branchid_to_submissions",
       "004_add_employeeid_to_salesman",
+      "005_add_coverage_checks",
+      "006_add_outbox",
+      "007_add_idempotency_keys",
+      "008_add_submission_duplicates",
+      "009_add_submission_revisions",
+      "010_add_photo_metadata",
+      "011_add_upload_sessions",
+      "012_add_sheet_rows",
+      "013_add_coverage_results",
+      "014_add_coverage_webhook",
+      "015_add_submission_status",
+      "016_add_job_runs",
+      "017_add_submission_locations",
+      "018_add_salesman_lifecycle",
+      "019_add_branches",
+      "020_add_operators",
+      "021_add_idempotency_key_expiry",
+      "022_make_employee_id_unique",
+      "023_add_submission_timestamp_index",
+      "024_add_upload_session_failed",
       // Add more migrations here as they are created
     ];
 
@@ -0,0 +1,247 @@
+import axios, { type AxiosAdapter, type AxiosInstance } from "axios";
+
+/**
+ * Base class of the errors raised by the coverage bot client
+ */
+export class BotError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BotError";
+  }
+}
+
+// The bot could not be reached, timed out or answered with a 5xx
+export class BotUnavailableError extends BotError {
+  constructor(
+    message: string,
+    public status?: number,
+  ) {
+    super(message);
+    this.name = "BotUnavailableError";
+  }
+}
+
+// The bot rejected the request with a 4xx; retrying won't help
+export class BotRequestError extends BotError {
+  constructor(
+    message: string,
+    public status: number,
+  ) {
+    super(message);
+    this.name = "BotRequestError";
+  }
+}
+
+// Too many recent failures; calls are refused until the cooldown ends
+export class BotCircuitOpenError extends BotError {
+  constructor(public retryAt: Date) {
+    super(`Coverage bot circuit is open until ${retryAt.toISOString()}`);
+    this.name = "BotCircuitOpenError";
+  }
+}
+
+// The bot answered with a body that doesn't have the expected shape
+export class BotResponseError extends BotError {
+  constructor(message: string) {
+    super(message);
+    this.name = "BotResponseError";
+  }
+}
+
+/**
+ * A coverage ticket as reported by the bot. `isCovered` is null while the
+ * operator has not answered.
+ */
+export type BotTicket = {
+  id: string;
+  operator: string | null;
+  isCovered: boolean | null;
+  homepassedId: string | null;
+  operatorRemarks: string | null;
+  ticketClosedDate: string | null;
+};
+
+export type BotClientOptions = {
+  baseUrl: string;
+  apiKey?: string;
+  timeoutMs: number;
+  // Extra attempts after the first one, for retryable failures only
+  retries: number;
+  retryBaseDelayMs: number;
+  // Consecutive failures that open the circuit, and for how long
+  breakerThreshold: number;
+  breakerCooldownMs: number;
+  // Replaces the HTTP transport, e.g. with an in-process fake bot
+  adapter?: AxiosAdapter;
+};
+
+// The bot reports is_covered as a number, a numeric string or a boolean
+const COVERED_VALUES: readonly unknown[] = [1, "1", true];
+const NOT_COVERED_VALUES: readonly unknown[] = [0, "0", false];
+
+function optionalString(
+  content: Record<string, unknown>,
+  field: string,
+): string | null {
+  const value = content[field];
+  if (value === undefined || value === null || value === "") {
+    return null;
+  }
+  if (typeof value !== "string" && typeof value !== "number") {
+    throw new BotResponseError(`Bot ticket field ${field} is not a string`);
+  }
+  return String(value);
+}
+
+/**
+ * Validates a ticket from the bot's `GET /api/check-coverage/:id` response
+ * or result callback
+ */
+export function parseBotTicket(content: unknown): BotTicket {
+  if (!content || typeof content !== "object" || Array.isArray(content)) {
+    throw new BotResponseError("Bot ticket is not an object");
+  }
+  const ticket = content as Record<string, unknown>;
+
+  const id = optionalString(ticket, "id");
+  if (id === null) {
+    throw new BotResponseError("Bot ticket has no ID");
+  }
+
+  const coverage = ticket.is_covered;
+  let isCovered: boolean | null;
+  if (coverage === undefined || coverage === null) {
+    isCovered = null;
+  } else if (COVERED_VALUES.includes(coverage)) {
+    isCovered = true;
+  } else if (NOT_COVERED_VALUES.includes(coverage)) {
+    isCovered = false;
+  } else {
+    throw new BotResponseError(
+      `Bot ticket has an invalid is_covered value: ${JSON.stringify(coverage)}`,
+    );
+  }
+
+  return {
+    id,
+    operator: optionalString(ticket, "operator"),
+    isCovered,
+    homepassedId: optionalString(ticket, "homepassed_id"),
+    operatorRemarks: optionalString(ticket, "operator_remarks"),
+    ticketClosedDate: optionalString(ticket, "ticket_closed_date"),
+  };
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Client for a coverage bot's HTTP API, with timeouts, retries on 5xx and
+ * network errors, and a circuit breaker shared by all calls
+ */
+export function createBotClient(options: BotClientOptions) {
+  const http: AxiosInstance = axios.create({
+    baseURL: options.baseUrl,
+    timeout: options.timeoutMs,
+    headers: {
+      "Content-Type": "application/json",
+      "x-api-key": options.apiKey,
+    },
+    adapter: options.adapter,
+    // Status codes are classified below
+    validateStatus: () => true,
+  });
+
+  let consecutiveFailures = 0;
+  let openUntil = 0;
+
+  async function attempt(
+    method: "get" | "post",
+    path: string,
+    body?: unknown,
+  ): Promise<unknown> {
+    let response;
+    try {
+      response = await http.request({ method, url: path, data: body });
+    } catch (error: any) {
+      throw new BotUnavailableError(
+        `Coverage bot ${method.toUpperCase()} ${path} failed: ${error.message}`,
+      );
+    }
+
+    if (response.status >= 500) {
+      throw new BotUnavailableError(
+        `Coverage bot ${method.toUpperCase()} ${path} returned HTTP ${response.status}`,
+        response.status,
+      );
+    }
+    if (response.status >= 400) {
+      throw new BotRequestError(
+        `Coverage bot ${method.toUpperCase()} ${path} returned HTTP ${response.status}`,
+        response.status,
+      );
+    }
+    return response.data;
+  }
+
+  async function call(
+    method: "get" | "post",
+    path: string,
+    body?: unknown,
+  ): Promise<unknown> {
+    if (Date.now() < openUntil) {
+      throw new BotCircuitOpenError(new Date(openUntil));
+    }
+
+    for (let attemptNo = 0; ; attemptNo++) {
+      try {
+        const data = await attempt(method, path, body);
+        consecutiveFailures = 0;
+        return data;
+      } catch (error) {
+        if (!(error instanceof BotUnavailableError)) {
+          throw error;
+        }
+
+        consecutiveFailures++;
+        if (consecutiveFailures >= options.breakerThreshold) {
+          openUntil = Date.now() + options.breakerCooldownMs;
+          throw error;
+        }
+        if (attemptNo >= options.retries) {
+          throw error;
+        }
+        // Exponential backoff with full jitter
+        await sleep(Math.random() * options.retryBaseDelayMs * 2 ** attemptNo);
+      }
+    }
+  }
+
+  return {
+    /**
+     * Opens a coverage check ticket and returns its ID
+     */
+    async createTicket(request: unknown): Promise<string> {
+      const data: any = await call("post", "/api/check-coverage", request);
+      const ticketId = Array.isArray(data?.data) ? data.data[0]?.id : undefined;
+      if (
+        (typeof ticketId !== "string" && typeof ticketId !== "number") ||
+        ticketId === ""
+      ) {
+        throw new BotResponseError("Coverage bot returned no ticket ID");
+      }
+      return String(ticketId);
+    },
+
+    async getTicket(ticketId: string): Promise<BotTicket> {
+      const data: any = await call(
+        "get",
+        `/api/check-coverage/${encodeURIComponent(ticketId)}`,
+      );
+      return parseBotTicket(data?.data);
+    },
+  };
+}
+
+export type BotClient = ReturnType<typeof createBotClient>;
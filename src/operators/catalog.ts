@@ -0,0 +1,192 @@
+import type { PoolConnection, RowDataPacket } from "mysql2/promise";
+import { formatMySQLDateTime } from "../dates";
+import { pool } from "../db";
+import { type SpreadsheetTarget, sheetMappings } from "../sheetSync/mappings";
+
+/**
+ * An operator salesmen can check coverage with. The code is what the form
+ * sends in a submission's `operators` field.
+ */
+export type Operator = {
+  code: string;
+  name: string;
+  // Branches whose salesmen can select the operator
+  branches: string[];
+  // Operator spreadsheet that receives its submissions and coverage results
+  spreadsheetTarget: SpreadsheetTarget | null;
+  // Whether coverage is checked through the operator's adapter
+  automatedCheck: boolean;
+  active: boolean;
+};
+
+export type OperatorFields = Omit<Operator, "code" | "active">;
+
+function toOperator(row: RowDataPacket): Operator {
+  return {
+    code: row.code,
+    name: row.name,
+    branches:
+      typeof row.branches === "string"
+        ? JSON.parse(row.branches)
+        : row.branches,
+    spreadsheetTarget: row.spreadsheet_target,
+    automatedCheck: Boolean(row.automated_check),
+    active: Boolean(row.active),
+  };
+}
+
+export async function listOperators(includeInactive = false) {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    `SELECT * FROM operators ${includeInactive ? "" : "WHERE active = 1"} ORDER BY name`,
+  );
+  return rows.map(toOperator);
+}
+
+export async function getOperator(code: string): Promise<Operator | null> {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    `SELECT * FROM operators WHERE code = ?`,
+    [code],
+  );
+  return rows[0] ? toOperator(rows[0]) : null;
+}
+
+/**
+ * Codes of the operators the form can offer
+ */
+export async function activeOperatorCodes(): Promise<string[]> {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    `SELECT code FROM operators WHERE active = 1`,
+  );
+  return rows.map((row) => row.code);
+}
+
+/**
+ * Spreadsheets an operator can feed. Every submission also goes to the
+ * "all" spreadsheet.
+ */
+export function operatorSpreadsheets(): SpreadsheetTarget[] {
+  return (Object.keys(sheetMappings) as SpreadsheetTarget[]).filter(
+    (target) => target !== "all",
+  );
+}
+
+/**
+ * Every spreadsheet submissions are written to
+ */
+export function spreadsheetTargets(): SpreadsheetTarget[] {
+  return ["all", ...operatorSpreadsheets()];
+}
+
+/**
+ * Operator spreadsheets the given operators' submissions are written to
+ */
+export async function spreadsheetsFedBy(
+  connection: PoolConnection,
+  codes: string[],
+): Promise<SpreadsheetTarget[]> {
+  if (codes.length === 0) {
+    return [];
+  }
+  const [rows] = await connection.query<RowDataPacket[]>(
+    `SELECT DISTINCT spreadsheet_target FROM operators
+     WHERE code IN (?) AND spreadsheet_target IS NOT NULL`,
+    [codes],
+  );
+  return rows.map((row) => row.spreadsheet_target);
+}
+
+/**
+ * Codes among the given ones of the operators checked automatically
+ */
+export async function automatedOperatorCodes(
+  connection: PoolConnection,
+  codes: string[],
+): Promise<string[]> {
+  if (codes.length === 0) {
+    return [];
+  }
+  const [rows] = await connection.query<RowDataPacket[]>(
+    `SELECT code FROM operators WHERE code IN (?) AND automated_check = 1`,
+    [codes],
+  );
+  return rows.map((row) => row.code);
+}
+
+export type OperatorChangeResult =
+  | { status: "not_found" }
+  | { status: "changed"; operator: Operator };
+
+export async function createOperator(
+  code: string,
+  fields: OperatorFields,
+): Promise<{ status: "exists" } | { status: "created"; operator: Operator }> {
+  if (await getOperator(code)) {
+    return { status: "exists" };
+  }
+
+  const now = formatMySQLDateTime(new Date());
+  await pool.execute(
+    `INSERT INTO operators (code, name, branches, spreadsheet_target, automated_check, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [
+      code,
+      fields.name,
+      JSON.stringify(fields.branches),
+      fields.spreadsheetTarget,
+      fields.automatedCheck ? 1 : 0,
+      now,
+      now,
+    ],
+  );
+  return { status: "created", operator: { code, ...fields, active: true } };
+}
+
+/**
+ * Changes the given fields of an operator; the others keep their value.
+ * Submissions already made keep the spreadsheet rows and coverage checks
+ * they were queued with.
+ */
+export async function updateOperator(
+  code: string,
+  changes: Partial<OperatorFields>,
+): Promise<OperatorChangeResult> {
+  const current = await getOperator(code);
+  if (!current) {
+    return { status: "not_found" };
+  }
+  const operator = { ...current, ...changes };
+
+  await pool.execute(
+    `UPDATE operators SET name = ?, branches = ?, spreadsheet_target = ?, automated_check = ?, updated_at = ?
+     WHERE code = ?`,
+    [
+      operator.name,
+      JSON.stringify(operator.branches),
+      operator.spreadsheetTarget,
+      operator.automatedCheck ? 1 : 0,
+      formatMySQLDateTime(new Date()),
+      code,
+    ],
+  );
+  return { status: "changed", operator };
+}
+
+/**
+ * Retires an operator from the form, or offers it again. Checks already
+ * running for it carry on.
+ */
+export async function setOperatorActive(
+  code: string,
+  active: boolean,
+): Promise<OperatorChangeResult> {
+  const current = await getOperator(code);
+  if (!current) {
+    return { status: "not_found" };
+  }
+
+  await pool.execute(
+    `UPDATE operators SET active = ?, updated_at = ? WHERE code = ?`,
+    [active ? 1 : 0, formatMySQLDateTime(new Date()), code],
+  );
+  return { status: "changed", operator: { ...current, active } };
+}
@@ -0,0 +1,128 @@
+import type { AxiosAdapter } from "axios";
+import {
+  COVERAGE_BOT_BREAKER_COOLDOWN_SECONDS,
+  COVERAGE_BOT_BREAKER_THRESHOLD,
+  COVERAGE_BOT_DRIVER,
+  COVERAGE_BOT_RETRIES,
+  COVERAGE_BOT_RETRY_BASE_DELAY_MS,
+  COVERAGE_BOT_TIMEOUT_MS,
+} from "../config";
+import {
+  type BotTicket,
+  BotResponseError,
+  createBotClient,
+  parseBotTicket,
+} from "./botClient";
+import type {
+  CoverageCheckInput,
+  CoverageResult,
+  OperatorAdapter,
+} from "./types";
+
+type FiberstarRequest = {
+  operator: "fiberstar";
+  customer_name: string;
+  street_name: string;
+  home_no: string;
+  latitude?: string;
+  longitude?: string;
+  province?: string;
+  city?: string;
+  subdistrict?: string;
+  village?: string;
+  postal_code?: string;
+  residence_type: string;
+  residence_name: string;
+  remarks: string | null;
+  file: string;
+};
+
+// Loads the fake bot on the first request, so it only runs in fake mode
+const fakeBotAdapter: AxiosAdapter = async (config) => {
+  const { fakeCoverageBot } = await import("../fakes");
+  return fakeCoverageBot.adapter(config);
+};
+
+const botClient = createBotClient({
+  baseUrl: process.env.FS_CHECK_COVERAGE_BOT_HOST || "",
+  apiKey: process.env.FS_CHECK_COVERAGE_BOT_API_KEY,
+  timeoutMs: COVERAGE_BOT_TIMEOUT_MS,
+  retries: COVERAGE_BOT_RETRIES,
+  retryBaseDelayMs: COVERAGE_BOT_RETRY_BASE_DELAY_MS,
+  breakerThreshold: COVERAGE_BOT_BREAKER_THRESHOLD,
+  breakerCooldownMs: COVERAGE_BOT_BREAKER_COOLDOWN_SECONDS * 1000,
+  adapter: COVERAGE_BOT_DRIVER === "fake" ? fakeBotAdapter : undefined,
+});
+
+/**
+ * Turns a bot ticket into a coverage result; null while it has no answer yet
+ */
+function toCoverageResult(ticket: BotTicket): CoverageResult | null {
+  if (ticket.isCovered === null) {
+    return null;
+  }
+
+  const { isCovered, homepassedId, ticketClosedDate } = ticket;
+  return {
+    isCovered,
+    homepassedId,
+    operatorRemarks: ticket.operatorRemarks,
+    ticketClosedDate,
+    // Not covered is final; covered is final once the homepass is closed
+    finished: !isCovered || Boolean(homepassedId && ticketClosedDate),
+  };
+}
+
+export const fiberstarAdapter: OperatorAdapter<FiberstarRequest> = {
+  code: "FS",
+
+  buildRequest(input: CoverageCheckInput): FiberstarRequest {
+    // village is "postal code, village, district, city, province"
+    const vill = input.village?.split(",");
+    const residenceType = input.buildingType === "ruko" ? "ruko" : "perumahan";
+    const residenceName = residenceType == "ruko" ? "ruko" : "rumah";
+
+    return {
+      operator: "fiberstar",
+      customer_name: input.customerName,
+      street_name: input.customerAddress,
+      home_no: input.customerHomeNo,
+      latitude: input.coordinates?.split(",")[0],
+      longitude: input.coordinates?.split(",")[1],
+      province: vill?.[4],
+      city: vill?.[3],
+      subdistrict: vill?.[2],
+      village: vill?.[1],
+      postal_code: vill?.[0],
+      residence_type: residenceType,
+      residence_name: residenceName,
+      remarks: input.remarks,
+      file: input.photoUrls.join(", "),
+    };
+  },
+
+  async dispatch(request) {
+    return botClient.createTicket(request);
+  },
+
+  async fetchResult(externalId) {
+    return toCoverageResult(await botClient.getTicket(externalId));
+  },
+
+  parseCallback(body) {
+    // Callbacks carry the same ticket data as GET /api/check-coverage/:id
+    let ticket: BotTicket;
+    try {
+      ticket = parseBotTicket(body?.data ?? body);
+    } catch (error) {
+      if (error instanceof BotResponseError) {
+        return null;
+      }
+      throw error;
+    }
+    if (ticket.operator && ticket.operator !== "fiberstar") {
+      return null;
+    }
+    return { externalId: ticket.id, result: toCoverageResult(ticket) };
+  },
+};
@@ -0,0 +1,37 @@
+import { fiberstarAdapter } from "./fiberstar";
+import type { OperatorAdapter } from "./types";
+
+export type {
+  CoverageCheckInput,
+  CoverageResult,
+  OperatorAdapter,
+} from "./types";
+
+const adapters = new Map<string, OperatorAdapter<any>>();
+
+export function registerOperatorAdapter(adapter: OperatorAdapter<any>) {
+  adapters.set(adapter.code, adapter);
+}
+
+export function getOperatorAdapter(
+  code: string,
+): OperatorAdapter<any> | undefined {
+  return adapters.get(code);
+}
+
+/**
+ * Returns the adapters for the selected operators that have an automated checker
+ */
+export function adaptersFor(operators: string[]): OperatorAdapter<any>[] {
+  return operators
+    .map((code) => adapters.get(code))
+    .filter(
+      (adapter): adapter is OperatorAdapter<any> => adapter !== undefined,
+    );
+}
+
+export function allOperatorAdapters(): OperatorAdapter<any>[] {
+  return [...adapters.values()];
+}
+
+registerOperatorAdapter(fiberstarAdapter);
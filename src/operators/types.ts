@@ -0,0 +1,46 @@
+/**
+ * Submission data handed to an operator adapter when building its request
+ */
+export type CoverageCheckInput = {
+  submissionId: string;
+  customerName: string;
+  customerAddress: string;
+  customerHomeNo: string;
+  village: string;
+  coordinates: string;
+  buildingType: string;
+  remarks: string | null;
+  photoUrls: string[];
+};
+
+/**
+ * Coverage outcome reported by an operator's checker
+ */
+export type CoverageResult = {
+  isCovered: boolean;
+  homepassedId: string | null;
+  operatorRemarks: string | null;
+  ticketClosedDate: string | null;
+  // Whether the operator will not report anything further for this ticket
+  finished: boolean;
+};
+
+/**
+ * Describes how coverage is checked for one operator.
+ * Register new adapters in `./index.ts` and turn on the operator's
+ * `automatedCheck`.
+ */
+export interface OperatorAdapter<TRequest = unknown> {
+  // Operator code as sent in the form's `operators` field, e.g. "FS"
+  code: string;
+  buildRequest(input: CoverageCheckInput): TRequest;
+  // Sends the request and returns the operator's ticket ID
+  dispatch(request: TRequest): Promise<string>;
+  // Returns null while the operator has no answer yet
+  fetchResult(externalId: string): Promise<CoverageResult | null>;
+  // Reads a result callback posted to the coverage bot webhook. Returns null
+  // if the body is not meant for this operator.
+  parseCallback?(
+    body: any,
+  ): { externalId: string; result: CoverageResult | null } | null;
+}
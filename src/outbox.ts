@@ -0,0 +1,233 @@
+import type {
+  PoolConnection,
+  ResultSetHeader,
+  RowDataPacket,
+} from "mysql2/promise";
+import { OUTBOX_BASE_DELAY_SECONDS, OUTBOX_MAX_ATTEMPTS } from "./config";
+import { dispatchCoverageCheck } from "./coverage";
+import { formatMySQLDateTime } from "./dates";
+import { pool } from "./db";
+import {
+  InvalidTransitionError,
+  type SubmissionStatus,
+  transitionSubmission,
+} from "./lifecycle";
+import {
+  appendSubmissionToSpreadsheet,
+  type SpreadsheetTarget,
+  updateSubmissionInSpreadsheet,
+} from "./spreadsheets";
+
+/**
+ * Side effects of a submission, delivered by the outbox worker after the
+ * submission is committed
+ */
+export type OutboxEvent =
+  | { kind: "spreadsheet.append"; payload: { target: SpreadsheetTarget } }
+  | { kind: "spreadsheet.update"; payload: { target: SpreadsheetTarget } }
+  | { kind: "coverage.dispatch"; payload: { operator: string } };
+
+export type OutboxStatus = "pending" | "delivered" | "dead";
+
+type OutboxRow = {
+  id: number;
+  submission_id: string;
+  kind: OutboxEvent["kind"];
+  payload: any;
+  attempts: number;
+};
+
+// How long a claimed event is hidden from other workers while delivering
+const CLAIM_LEASE_SECONDS = 5 * 60;
+// Upper bound for the exponential backoff between attempts
+const MAX_DELAY_SECONDS = 6 * 60 * 60;
+
+const handlers: {
+  [K in OutboxEvent["kind"]]: (
+    submissionId: string,
+    payload: Extract<OutboxEvent, { kind: K }>["payload"],
+  ) => Promise<void>;
+} = {
+  "spreadsheet.append": (submissionId, payload) =>
+    appendSubmissionToSpreadsheet(submissionId, payload.target),
+  "spreadsheet.update": (submissionId, payload) =>
+    updateSubmissionInSpreadsheet(submissionId, payload.target),
+  "coverage.dispatch": (submissionId, payload) =>
+    dispatchCoverageCheck(submissionId, payload.operator),
+};
+
+/**
+ * Moves a submission as a side effect of delivery, unless it already left
+ * the statuses this applies to, e.g. because it was cancelled
+ */
+async function moveSubmission(
+  submissionId: string,
+  to: SubmissionStatus,
+  reason: string,
+) {
+  try {
+    await transitionSubmission(submissionId, to, reason);
+  } catch (error) {
+    if (!(error instanceof InvalidTransitionError)) {
+      throw error;
+    }
+  }
+}
+
+function addSeconds(date: Date, seconds: number): Date {
+  return new Date(date.getTime() + seconds * 1000);
+}
+
+/**
+ * Records a side effect in the same transaction as the submission change
+ * that causes it
+ */
+export async function enqueueOutboxEvent(
+  connection: PoolConnection,
+  submissionId: string,
+  event: OutboxEvent,
+) {
+  const now = formatMySQLDateTime(new Date());
+  await connection.execute(
+    `INSERT INTO outbox (submission_id, kind, payload, status, attempts, next_attempt_at, created_at)
+     VALUES (?, ?, ?, 'pending', 0, ?, ?)`,
+    [submissionId, event.kind, JSON.stringify(event.payload), now, now],
+  );
+}
+
+/**
+ * Locks due events so concurrent workers don't deliver them twice. The
+ * attempt is counted up front so a crash mid-delivery still backs off.
+ */
+async function claimDueEvents(
+  limit: number,
+  submissionId?: string,
+): Promise<OutboxRow[]> {
+  const connection = await pool.getConnection();
+  try {
+    await connection.beginTransaction();
+
+    const now = new Date();
+    const [rows] = await connection.query<RowDataPacket[]>(
+      `SELECT id, submission_id, kind, payload, attempts
+       FROM outbox
+       WHERE status = 'pending' AND next_attempt_at <= ?
+       ${submissionId ? "AND submission_id = ?" : ""}
+       ORDER BY next_attempt_at
+       LIMIT ?
+       FOR UPDATE SKIP LOCKED`,
+      submissionId
+        ? [formatMySQLDateTime(now), submissionId, limit]
+        : [formatMySQLDateTime(now), limit],
+    );
+
+    if (rows.length > 0) {
+      await connection.query(
+        `UPDATE outbox SET attempts = attempts + 1, next_attempt_at = ? WHERE id IN (?)`,
+        [
+          formatMySQLDateTime(addSeconds(now, CLAIM_LEASE_SECONDS)),
+          rows.map((row) => row.id),
+        ],
+      );
+    }
+
+    await connection.commit();
+    return rows.map((row) => ({
+      id: row.id,
+      submission_id: row.submission_id,
+      kind: row.kind,
+      payload:
+        typeof row.payload === "string" ? JSON.parse(row.payload) : row.payload,
+      attempts: row.attempts + 1,
+    }));
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+}
+
+async function deliverEvent(event: OutboxRow) {
+  try {
+    await handlers[event.kind](event.submission_id, event.payload);
+    await pool.execute(
+      `UPDATE outbox SET status = 'delivered', delivered_at = ?, last_error = NULL WHERE id = ?`,
+      [formatMySQLDateTime(new Date()), event.id],
+    );
+    return true;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(
+      `Error delivering outbox event ${event.id} (${event.kind}) for submission ${event.submission_id}:`,
+      error,
+    );
+
+    if (event.attempts >= OUTBOX_MAX_ATTEMPTS) {
+      await pool.execute(
+        `UPDATE outbox SET status = 'dead', last_error = ? WHERE id = ?`,
+        [message, event.id],
+      );
+      if (event.kind === "coverage.dispatch") {
+        await moveSubmission(
+          event.submission_id,
+          "failed",
+          `Could not send to the ${event.payload.operator} coverage checker: ${message}`,
+        );
+      }
+    } else {
+      const delay = Math.min(
+        OUTBOX_BASE_DELAY_SECONDS * 2 ** (event.attempts - 1),
+        MAX_DELAY_SECONDS,
+      );
+      await pool.execute(
+        `UPDATE outbox SET last_error = ?, next_attempt_at = ? WHERE id = ?`,
+        [message, formatMySQLDateTime(addSeconds(new Date(), delay)), event.id],
+      );
+    }
+    return false;
+  }
+}
+
+/**
+ * Delivers due outbox events, optionally only those of one submission.
+ * Returns the number of events delivered successfully.
+ */
+export async function deliverDueOutboxEvents(
+  limit = 50,
+  submissionId?: string,
+): Promise<number> {
+  const events = await claimDueEvents(limit, submissionId);
+
+  let delivered = 0;
+  for (const event of events) {
+    if (await deliverEvent(event)) {
+      delivered++;
+    }
+  }
+  return delivered;
+}
+
+/**
+ * Puts a dead event back in the queue with a fresh attempt budget
+ */
+export async function retryOutboxEvent(id: number): Promise<boolean> {
+  const [result] = await pool.execute<ResultSetHeader>(
+    `UPDATE outbox SET status = 'pending', attempts = 0, next_attempt_at = ? WHERE id = ? AND status = 'dead'`,
+    [formatMySQLDateTime(new Date()), id],
+  );
+  if (result.affectedRows === 0) {
+    return false;
+  }
+
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    `SELECT o.submission_id, o.kind, s.status
+     FROM outbox o JOIN submissions s ON s.id = o.submission_id
+     WHERE o.id = ?`,
+    [id],
+  );
+  if (rows[0]?.kind === "coverage.dispatch" && rows[0].status === "failed") {
+    await moveSubmission(rows[0].submission_id, "received", "Dispatch retried");
+  }
+  return true;
+}
@@ -0,0 +1,72 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { PHOTO_LINK_SECRET, PHOTO_LINK_TTL_DAYS } from "./config";
+
+// Who the token grants access to: one file of one submission, until exp
+type PhotoTokenPayload = {
+  sid: string;
+  file: string;
+  // Expiry, in seconds since the epoch
+  exp: number;
+};
+
+// A secret of its own, so photo links and the admin API key can be rotated
+// separately. Checked here rather than at import, so that cron jobs and
+// scripts that never sign a link run without it.
+function sign(data: string): string {
+  if (!PHOTO_LINK_SECRET) {
+    throw new Error("PHOTO_LINK_SECRET must be set to sign photo links");
+  }
+  return createHmac("sha256", PHOTO_LINK_SECRET)
+    .update(data)
+    .digest("base64url");
+}
+
+/**
+ * Creates a token granting read access to one photo of a submission
+ */
+export function signPhotoToken(
+  submissionId: string,
+  filename: string,
+  ttlSeconds = PHOTO_LINK_TTL_DAYS * 24 * 60 * 60,
+): string {
+  const payload: PhotoTokenPayload = {
+    sid: submissionId,
+    file: filename,
+    exp: Math.floor(Date.now() / 1000) + ttlSeconds,
+  };
+  const data = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${data}.${sign(data)}`;
+}
+
+/**
+ * Checks that a token is authentic, unexpired and scoped to this photo
+ */
+export function verifyPhotoToken(
+  token: string,
+  submissionId: string,
+  filename: string,
+): boolean {
+  const [data, signature] = token.split(".");
+  if (!data || !signature) {
+    return false;
+  }
+
+  const expected = Buffer.from(sign(data));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return false;
+  }
+
+  let payload: PhotoTokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(data, "base64url").toString());
+  } catch {
+    return false;
+  }
+
+  return (
+    payload.sid === submissionId &&
+    payload.file === filename &&
+    payload.exp > Date.now() / 1000
+  );
+}
@@ -0,0 +1,358 @@
+import exifr from "exifr";
+import sharp from "sharp";
+import { PHOTO_MAX_AGE_HOURS, PHOTO_MAX_DISTANCE_METERS } from "./config";
+import { signPhotoToken } from "./photoLinks";
+import { storage } from "./storage";
+
+export type MediaType = "image/jpeg" | "image/png" | "video/mp4";
+
+const extensions: Record<MediaType, string> = {
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+  "video/mp4": ".mp4",
+};
+
+export type PhotoMetadata = {
+  latitude: number | null;
+  longitude: number | null;
+  takenAt: Date | null;
+};
+
+export type PhotoFlag = {
+  kind:
+    | "photo_missing_metadata"
+    | "photo_location_mismatch"
+    | "photo_too_old"
+    | "photo_taken_after_submission";
+  detail: string;
+};
+
+// Tolerated clock drift between the phone and the server
+const CLOCK_SKEW_MINUTES = 10;
+
+/**
+ * Builds the URL of a building photo, as shared with the operator
+ * spreadsheets and the coverage bots. The link carries a signed token that
+ * grants access to this one photo until it expires.
+ */
+export function photoUrl(submissionId: string, filename: string): string {
+  return `${process.env.API_URL}/${
+    process.env.APP_ENV === "development" ? "api" : "xapi"
+  }/submissions/${submissionId}/photos/${filename}?token=${signPhotoToken(
+    submissionId,
+    filename,
+  )}`;
+}
+
+// Major brands of the ISO base media files accepted as MP4 video. HEIC/HEIF
+// photos and QuickTime movies use the same container with other brands.
+const MP4_BRANDS = ["isom", "iso2", "mp41", "mp42", "avc1", "M4V "];
+
+// Brands recognized but not accepted, named for the error message
+const UNSUPPORTED_BRANDS: Record<string, string> = {
+  heic: "HEIC photos",
+  heix: "HEIC photos",
+  mif1: "HEIF photos",
+  "qt  ": "QuickTime videos",
+};
+
+// Major brand of an ISO base media file (box size, "ftyp", brand), if it is one
+function isoMediaBrand(bytes: Uint8Array): string | null {
+  if (
+    bytes.length < 12 ||
+    bytes[4] !== 0x66 ||
+    bytes[5] !== 0x74 ||
+    bytes[6] !== 0x79 ||
+    bytes[7] !== 0x70
+  ) {
+    return null;
+  }
+  return String.fromCharCode(...bytes.subarray(8, 12));
+}
+
+/**
+ * Identifies an upload by its magic bytes, ignoring the client's file name
+ * and Content-Type
+ */
+export function sniffMediaType(bytes: Uint8Array): MediaType | null {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return "image/jpeg";
+  }
+  const png = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+  if (png.every((byte, index) => bytes[index] === byte)) {
+    return "image/png";
+  }
+  const brand = isoMediaBrand(bytes);
+  if (brand && MP4_BRANDS.includes(brand)) {
+    return "video/mp4";
+  }
+  return null;
+}
+
+/**
+ * Names a format sniffMediaType recognizes but rejects, e.g. "HEIC photos",
+ * so the salesman can be told what to change; null for unknown content
+ */
+export function unsupportedMediaFormat(bytes: Uint8Array): string | null {
+  const brand = isoMediaBrand(bytes);
+  return brand ? (UNSUPPORTED_BRANDS[brand] ?? null) : null;
+}
+
+export function extensionFor(mediaType: MediaType): string {
+  return extensions[mediaType];
+}
+
+/**
+ * EXIF times are local to the camera ("2025:04:06 10:15:00"); phones that
+ * don't record the UTC offset are assumed to be on WIB
+ */
+function parseExifDate(value: unknown, offset: unknown): Date | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+  const match = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/.exec(value);
+  if (!match) {
+    return null;
+  }
+  const utcOffset =
+    typeof offset === "string" && /^[+-]\d{2}:\d{2}$/.test(offset)
+      ? offset
+      : "+07:00";
+  const date = new Date(
+    `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}${utcOffset}`,
+  );
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Reads GPS position and capture time from a photo's EXIF data
+ */
+export async function readPhotoMetadata(
+  bytes: Uint8Array,
+  mediaType: MediaType,
+): Promise<PhotoMetadata> {
+  const metadata: PhotoMetadata = {
+    latitude: null,
+    longitude: null,
+    takenAt: null,
+  };
+  if (mediaType === "video/mp4") {
+    return metadata;
+  }
+
+  try {
+    const exif = await exifr.parse(Buffer.from(bytes), {
+      gps: true,
+      reviveValues: false,
+      pick: [
+        "DateTimeOriginal",
+        "CreateDate",
+        "OffsetTimeOriginal",
+        "GPSLatitude",
+        "GPSLatitudeRef",
+        "GPSLongitude",
+        "GPSLongitudeRef",
+      ],
+    });
+    if (exif) {
+      if (
+        typeof exif.latitude === "number" &&
+        typeof exif.longitude === "number"
+      ) {
+        metadata.latitude = exif.latitude;
+        metadata.longitude = exif.longitude;
+      }
+      metadata.takenAt = parseExifDate(
+        exif.DateTimeOriginal || exif.CreateDate,
+        exif.OffsetTimeOriginal,
+      );
+    }
+  } catch (error) {
+    console.error("Error reading photo EXIF data:", error);
+  }
+  return metadata;
+}
+
+function distanceInMeters(
+  a: { latitude: number; longitude: number },
+  b: { latitude: number; longitude: number },
+): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) *
+      Math.cos(toRadians(b.latitude)) *
+      Math.sin(dLng / 2) ** 2;
+  return 2 * 6371000 * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Compares a photo's EXIF data with the submitted location and time, so old
+ * photos or photos taken elsewhere can be reviewed
+ */
+export function checkPhotoMetadata(
+  metadata: PhotoMetadata,
+  submitted: { latitude: number; longitude: number },
+  submittedAt: Date,
+): PhotoFlag[] {
+  const flags: PhotoFlag[] = [];
+
+  if (metadata.latitude === null || metadata.longitude === null) {
+    flags.push({
+      kind: "photo_missing_metadata",
+      detail: "Photo has no GPS position",
+    });
+  } else {
+    const distance = distanceInMeters(submitted, {
+      latitude: metadata.latitude,
+      longitude: metadata.longitude,
+    });
+    if (distance > PHOTO_MAX_DISTANCE_METERS) {
+      flags.push({
+        kind: "photo_location_mismatch",
+        detail: `Photo was taken ${Math.round(distance)} m from the submitted coordinates`,
+      });
+    }
+  }
+
+  if (!metadata.takenAt) {
+    flags.push({
+      kind: "photo_missing_metadata",
+      detail: "Photo has no capture time",
+    });
+  } else {
+    const ageHours =
+      (submittedAt.getTime() - metadata.takenAt.getTime()) / (60 * 60 * 1000);
+    if (ageHours > PHOTO_MAX_AGE_HOURS) {
+      flags.push({
+        kind: "photo_too_old",
+        detail: `Photo was taken ${Math.floor(ageHours)} hours before submission`,
+      });
+    } else if (ageHours < -CLOCK_SKEW_MINUTES / 60) {
+      flags.push({
+        kind: "photo_taken_after_submission",
+        detail: "Photo capture time is after the submission time",
+      });
+    }
+  }
+
+  return flags;
+}
+
+/**
+ * Renders a small JPEG preview for the admin list, or null for videos
+ */
+export async function createThumbnail(
+  bytes: Uint8Array,
+  mediaType: MediaType,
+): Promise<Uint8Array | null> {
+  if (mediaType === "video/mp4") {
+    return null;
+  }
+  // rotate() applies the EXIF orientation before it is stripped
+  return sharp(bytes)
+    .rotate()
+    .resize(320, 320, { fit: "inside", withoutEnlargement: true })
+    .jpeg({ quality: 70 })
+    .toBuffer();
+}
+
+// Storage name of an upload, without extension
+function uploadStem(originalName: string): string {
+  const baseName = originalName
+    .replace(/\.[^.]*$/, "")
+    .replace(/[^a-zA-Z0-9.-]/g, "_");
+  return `${Date.now()}-${baseName}`;
+}
+
+async function saveThumbnail(
+  stem: string,
+  filename: string,
+  bytes: Uint8Array,
+  mediaType: MediaType,
+): Promise<string | null> {
+  try {
+    const thumbnail = await createThumbnail(bytes, mediaType);
+    if (thumbnail) {
+      const thumbnailFilename = `${stem}-thumb.jpg`;
+      await storage.put(thumbnailFilename, thumbnail, "image/jpeg");
+      return thumbnailFilename;
+    }
+  } catch (error) {
+    // A photo sharp can't decode is still kept, just without a preview
+    console.error(`Error creating thumbnail for ${filename}:`, error);
+  }
+  return null;
+}
+
+/**
+ * Writes an upload and its thumbnail to the configured storage under a safe
+ * name whose extension matches the sniffed content
+ */
+export async function saveUpload(
+  bytes: Uint8Array,
+  originalName: string,
+  mediaType: MediaType,
+): Promise<{ filename: string; thumbnailFilename: string | null }> {
+  const stem = uploadStem(originalName);
+  const filename = `${stem}${extensionFor(mediaType)}`;
+  await storage.put(filename, bytes, mediaType);
+  const thumbnailFilename = await saveThumbnail(
+    stem,
+    filename,
+    bytes,
+    mediaType,
+  );
+  return { filename, thumbnailFilename };
+}
+
+/**
+ * Like saveUpload, for an upload that arrives in parts. The parts are
+ * written as they come; only photos are read back whole, for their preview
+ * and EXIF data, so videos are never held in memory.
+ */
+export async function saveUploadParts(
+  parts: AsyncIterable<Uint8Array>,
+  originalName: string,
+  mediaType: MediaType,
+): Promise<{
+  filename: string;
+  thumbnailFilename: string | null;
+  metadata: PhotoMetadata;
+}> {
+  const stem = uploadStem(originalName);
+  const filename = `${stem}${extensionFor(mediaType)}`;
+  const writer = await storage.writer(filename, mediaType);
+  try {
+    for await (const part of parts) {
+      await writer.write(part);
+    }
+  } catch (error) {
+    // Don't leave a truncated file behind when the parts can't be read
+    await writer.end().catch(() => {});
+    await storage.delete(filename);
+    throw error;
+  }
+  await writer.end();
+
+  if (mediaType === "video/mp4") {
+    return {
+      filename,
+      thumbnailFilename: null,
+      metadata: { latitude: null, longitude: null, takenAt: null },
+    };
+  }
+
+  const file = await storage.open(filename);
+  if (!file) {
+    throw new Error(`Upload ${filename} was not stored`);
+  }
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  return {
+    filename,
+    thumbnailFilename: await saveThumbnail(stem, filename, bytes, mediaType),
+    metadata: await readPhotoMetadata(bytes, mediaType),
+  };
+}
@@ -0,0 +1,159 @@
+import type { RowDataPacket } from "mysql2/promise";
+import { type DateRange, formatMySQLDateTime, toZonedISOString } from "./dates";
+import { pool } from "./db";
+import { scanSheetRows } from "./sheetSync";
+import {
+  appendSubmissionToSpreadsheet,
+  type SpreadsheetTarget,
+  spreadsheetColumns,
+} from "./spreadsheets";
+
+export type DriftReport = {
+  target: SpreadsheetTarget;
+  // Submissions that should be in the sheet but were never written there
+  missingFromSheet: { id: string; timestamp: string }[];
+  // Submissions in the sheet whose write was never recorded
+  unrecorded: string[];
+  // Sheet rows whose ID is not a submission, regardless of the date range
+  notInDatabase: { id: string; row: number }[];
+};
+
+export type ResyncResult = {
+  target: SpreadsheetTarget;
+  appended: number;
+  recorded: number;
+  failed: { id: string; error: string }[];
+};
+
+/**
+ * Submissions not yet recorded as written to a spreadsheet. Cancelled
+ * submissions and merged or suspected duplicates are held back on purpose
+ * and writes still queued in the outbox are left to it.
+ */
+async function unwrittenSubmissions(
+  target: SpreadsheetTarget,
+  range: DateRange,
+  timeZone: string,
+) {
+  const conditions = [
+    `s.${spreadsheetColumns[target]} IS NULL`,
+    `s.duplicateOfId IS NULL`,
+    `s.status <> 'cancelled'`,
+    `NOT EXISTS (
+      SELECT 1 FROM submission_duplicates d
+      WHERE d.submission_id = s.id AND d.status = 'suspected'
+    )`,
+    `NOT EXISTS (
+      SELECT 1 FROM outbox o
+      WHERE o.submission_id = s.id AND o.status = 'pending'
+        AND o.kind = 'spreadsheet.append'
+        AND JSON_UNQUOTE(JSON_EXTRACT(o.payload, '$.target')) = ?
+    )`,
+  ];
+  const params: string[] = [target];
+  // Only the spreadsheets the submission's branch writes to
+  conditions.push(
+    `(s.spreadsheetTargets IS NULL OR JSON_CONTAINS(s.spreadsheetTargets, JSON_QUOTE(?)))`,
+  );
+  params.push(target);
+  // Operator spreadsheets only hold the submissions of the operators feeding
+  // them
+  if (target !== "all") {
+    conditions.push(
+      `EXISTS (
+        SELECT 1 FROM operators o
+        WHERE o.spreadsheet_target = ? AND JSON_CONTAINS(s.operators, JSON_QUOTE(o.code))
+      )`,
+    );
+    params.push(target);
+  }
+  if (range.from) {
+    conditions.push(`s.timestamp >= ?`);
+    params.push(formatMySQLDateTime(range.from));
+  }
+  if (range.to) {
+    conditions.push(`s.timestamp < ?`);
+    params.push(formatMySQLDateTime(range.to));
+  }
+
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    `SELECT s.id, s.timestamp FROM submissions s
+     WHERE ${conditions.join(" AND ")}
+     ORDER BY s.timestamp`,
+    params,
+  );
+  return rows.map((row) => ({
+    id: row.id as string,
+    timestamp: toZonedISOString(new Date(row.timestamp), timeZone),
+  }));
+}
+
+async function existingSubmissionIds(ids: string[]): Promise<Set<string>> {
+  const existing = new Set<string>();
+  for (let i = 0; i < ids.length; i += 500) {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT id FROM submissions WHERE id IN (?)`,
+      [ids.slice(i, i + 500)],
+    );
+    rows.forEach((row) => existing.add(row.id));
+  }
+  return existing;
+}
+
+/**
+ * Compares a spreadsheet with the submissions table. Submission timestamps
+ * are reported in `timeZone`.
+ */
+export async function buildDriftReport(
+  target: SpreadsheetTarget,
+  range: DateRange = {},
+  timeZone = "UTC",
+): Promise<DriftReport> {
+  const sheetRows = await scanSheetRows(target);
+  const unwritten = await unwrittenSubmissions(target, range, timeZone);
+  const existing = await existingSubmissionIds([...sheetRows.keys()]);
+
+  return {
+    target,
+    missingFromSheet: unwritten.filter(
+      (submission) => !sheetRows.has(submission.id),
+    ),
+    unrecorded: unwritten
+      .filter((submission) => sheetRows.has(submission.id))
+      .map((submission) => submission.id),
+    notInDatabase: [...sheetRows]
+      .filter(([id]) => !existing.has(id))
+      .map(([id, row]) => ({ id, row })),
+  };
+}
+
+/**
+ * Writes the submissions a spreadsheet is missing. The sheet is scanned
+ * first, so rows that reached it without being recorded are only recorded.
+ */
+export async function resyncSpreadsheet(
+  target: SpreadsheetTarget,
+  range: DateRange = {},
+): Promise<ResyncResult> {
+  const report = await buildDriftReport(target, range);
+  const result: ResyncResult = { target, appended: 0, recorded: 0, failed: [] };
+
+  const now = formatMySQLDateTime(new Date());
+  for (const id of report.unrecorded) {
+    await pool.execute(
+      `UPDATE submissions SET ${spreadsheetColumns[target]} = ? WHERE id = ?`,
+      [now, id],
+    );
+    result.recorded++;
+  }
+
+  for (const submission of report.missingFromSheet) {
+    try {
+      await appendSubmissionToSpreadsheet(submission.id, target);
+      result.appended++;
+    } catch (error: any) {
+      result.failed.push({ id: submission.id, error: error.message });
+    }
+  }
+  return result;
+}
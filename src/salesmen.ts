@@ -0,0 +1,284 @@
+import type { PoolConnection, RowDataPacket } from "mysql2/promise";
+import { parseCsv } from "./csv";
+import { formatMySQLDateTime } from "./dates";
+import { pool } from "./db";
+import { salesmanSchema } from "./schemas";
+import { validate } from "./validation";
+
+/**
+ * A salesman as returned by the API. Inactive salesmen are hidden from the
+ * form but kept for the submissions and reports that reference them.
+ */
+export type Salesman = {
+  name: string;
+  employee_id: string;
+  branch_id: string;
+  active: boolean;
+};
+
+function toSalesman(row: RowDataPacket): Salesman {
+  return {
+    name: row.name,
+    employee_id: row.employeeId,
+    branch_id: row.branchId,
+    active: Boolean(row.active),
+  };
+}
+
+export async function listSalesmen(includeInactive = false) {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    `SELECT name, employeeId, branchId, active FROM salesman
+     ${includeInactive ? "" : "WHERE active = 1"}
+     ORDER BY name`,
+  );
+  return rows.map(toSalesman);
+}
+
+/**
+ * Active salesmen whose name, employee ID or branch ID contains the query
+ */
+export async function searchSalesmen(query: string, limit: number) {
+  const searchPattern = `%${query}%`;
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT name, employeeId, branchId, active FROM salesman
+     WHERE active = 1 AND (name LIKE ? OR employeeId LIKE ? OR branchId LIKE ?)
+     ORDER BY name LIMIT ?`,
+    [searchPattern, searchPattern, searchPattern, limit],
+  );
+  return rows.map(toSalesman);
+}
+
+/**
+ * Finds the active salesman a submission is made for: by employee ID when
+ * the form sends one, otherwise by name
+ */
+export async function findActiveSalesman(by: {
+  employeeId?: string;
+  name: string;
+}): Promise<Salesman | null> {
+  const [rows] = by.employeeId
+    ? await pool.execute<RowDataPacket[]>(
+        `SELECT name, employeeId, branchId, active FROM salesman
+         WHERE employeeId = ? AND active = 1 LIMIT 1`,
+        [by.employeeId],
+      )
+    : await pool.execute<RowDataPacket[]>(
+        `SELECT name, employeeId, branchId, active FROM salesman
+         WHERE name = ? AND active = 1 ORDER BY id LIMIT 1`,
+        [by.name],
+      );
+  return rows[0] ? toSalesman(rows[0]) : null;
+}
+
+export type SalesmanChangeResult =
+  | { status: "not_found" }
+  | { status: "changed"; salesman: Salesman };
+
+/**
+ * Renames a salesman or moves them to another branch. Their submissions
+ * follow through the employee ID and keep the name they were made under.
+ */
+export async function updateSalesman(
+  employeeId: string,
+  changes: { name: string; branch_id: string },
+): Promise<SalesmanChangeResult> {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    `SELECT name, employeeId, branchId, active FROM salesman WHERE employeeId = ?`,
+    [employeeId],
+  );
+  const current = rows[0];
+  if (!current) {
+    return { status: "not_found" };
+  }
+
+  await pool.execute(
+    `UPDATE salesman SET name = ?, branchId = ? WHERE employeeId = ?`,
+    [changes.name, changes.branch_id, employeeId],
+  );
+  return {
+    status: "changed",
+    salesman: {
+      ...toSalesman(current),
+      name: changes.name,
+      branch_id: changes.branch_id,
+    },
+  };
+}
+
+/**
+ * Hides a salesman from the form, or shows them again
+ */
+export async function setSalesmanActive(
+  employeeId: string,
+  active: boolean,
+): Promise<SalesmanChangeResult> {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    `SELECT name, employeeId, branchId, active FROM salesman WHERE employeeId = ?`,
+    [employeeId],
+  );
+  const current = rows[0];
+  if (!current) {
+    return { status: "not_found" };
+  }
+
+  await pool.execute(
+    `UPDATE salesman SET active = ?, deactivatedAt = ? WHERE employeeId = ?`,
+    [
+      active ? 1 : 0,
+      active ? null : formatMySQLDateTime(new Date()),
+      employeeId,
+    ],
+  );
+  return { status: "changed", salesman: { ...toSalesman(current), active } };
+}
+
+type FieldChange = { from: string | boolean; to: string | boolean };
+
+/**
+ * What a roster import changes, or would change on a dry run
+ */
+export type SalesmanImportResult = {
+  dryRun: boolean;
+  applied: boolean;
+  created: Salesman[];
+  updated: { employee_id: string; changes: Record<string, FieldChange> }[];
+  deactivated: string[];
+  unchanged: number;
+  errors: { line: number; field?: string; message: string }[];
+};
+
+async function applyImport(
+  connection: PoolConnection,
+  result: SalesmanImportResult,
+  importedRows: Map<string, Salesman>,
+) {
+  for (const salesman of result.created) {
+    await connection.execute(
+      `INSERT INTO salesman (name, employeeId, branchId) VALUES (?, ?, ?)`,
+      [salesman.name, salesman.employee_id, salesman.branch_id],
+    );
+  }
+  for (const update of result.updated) {
+    const salesman = importedRows.get(update.employee_id)!;
+    await connection.execute(
+      `UPDATE salesman SET name = ?, branchId = ?, active = 1, deactivatedAt = NULL
+       WHERE employeeId = ?`,
+      [salesman.name, salesman.branch_id, salesman.employee_id],
+    );
+  }
+  if (result.deactivated.length > 0) {
+    await connection.query(
+      `UPDATE salesman SET active = 0, deactivatedAt = ? WHERE employeeId IN (?)`,
+      [formatMySQLDateTime(new Date()), result.deactivated],
+    );
+  }
+}
+
+/**
+ * Creates or updates salesmen from a CSV roster with `name`, `employee_id`
+ * and `branch_id` columns. Listed inactive salesmen are reactivated, and
+ * with `deactivateMissing` active salesmen not listed are deactivated.
+ * Nothing is written on a dry run or if any row is invalid.
+ */
+export async function importSalesmen(
+  csv: string,
+  options: { dryRun: boolean; deactivateMissing: boolean },
+): Promise<SalesmanImportResult> {
+  const result: SalesmanImportResult = {
+    dryRun: options.dryRun,
+    applied: false,
+    created: [],
+    updated: [],
+    deactivated: [],
+    unchanged: 0,
+    errors: [],
+  };
+
+  const records = parseCsv(csv);
+  if (records.length === 0) {
+    result.errors.push({ line: 1, message: "The file has no salesmen" });
+    return result;
+  }
+
+  const importedRows = new Map<string, Salesman>();
+  for (const record of records) {
+    const validation = await validate(salesmanSchema, record.values);
+    if (!validation.success) {
+      for (const error of validation.errors) {
+        result.errors.push({ line: record.line, ...error });
+      }
+      continue;
+    }
+    const { name, employee_id, branch_id } = validation.value;
+    if (importedRows.has(employee_id)) {
+      result.errors.push({
+        line: record.line,
+        field: "employee_id",
+        message: `Employee ID ${employee_id} is listed more than once`,
+      });
+      continue;
+    }
+    importedRows.set(employee_id, {
+      name,
+      employee_id,
+      branch_id,
+      active: true,
+    });
+  }
+
+  const connection = await pool.getConnection();
+  try {
+    await connection.beginTransaction();
+
+    const [rows] = await connection.execute<RowDataPacket[]>(
+      `SELECT name, employeeId, branchId, active FROM salesman FOR UPDATE`,
+    );
+    const existing = new Map(
+      rows.map((row) => [row.employeeId as string, toSalesman(row)]),
+    );
+
+    for (const salesman of importedRows.values()) {
+      const current = existing.get(salesman.employee_id);
+      if (!current) {
+        result.created.push(salesman);
+        continue;
+      }
+
+      const changes: Record<string, FieldChange> = {};
+      for (const field of ["name", "branch_id", "active"] as const) {
+        if (current[field] !== salesman[field]) {
+          changes[field] = { from: current[field], to: salesman[field] };
+        }
+      }
+      if (Object.keys(changes).length > 0) {
+        result.updated.push({ employee_id: salesman.employee_id, changes });
+      } else {
+        result.unchanged++;
+      }
+    }
+
+    if (options.deactivateMissing) {
+      result.deactivated = [...existing.values()]
+        .filter(
+          (salesman) =>
+            salesman.active && !importedRows.has(salesman.employee_id),
+        )
+        .map((salesman) => salesman.employee_id);
+    }
+
+    if (options.dryRun || result.errors.length > 0) {
+      await connection.rollback();
+      return result;
+    }
+
+    await applyImport(connection, result, importedRows);
+    await connection.commit();
+    result.applied = true;
+    return result;
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+}
@@ -0,0 +1,227 @@
+import type { RowDataPacket } from "mysql2/promise";
+import { pool } from "./db";
+import {
+  activeOperatorCodes,
+  operatorSpreadsheets,
+  spreadsheetTargets,
+} from "./operators/catalog";
+import type { Schema } from "./validation";
+
+// Generous bounding box around Indonesia, Sabang to Merauke and Rote to Miangas
+const INDONESIA_BOUNDS = {
+  minLatitude: -11.5,
+  maxLatitude: 6.5,
+  minLongitude: 94.5,
+  maxLongitude: 141.5,
+};
+
+const coordinatesRegex = /^(-?\d+(\.\d+)?),\s*(-?\d+(\.\d+)?)$/;
+
+// Column limits from migrations (TEXT holds 65535 bytes)
+const VARCHAR_LENGTH = 255;
+const TEXT_LENGTH = 16000;
+
+/**
+ * Parses a "lat, lng" string, or returns null if it isn't one
+ */
+export function parseCoordinates(
+  coordinates: string,
+): { latitude: number; longitude: number } | null {
+  const match = coordinatesRegex.exec(coordinates.trim());
+  if (!match) {
+    return null;
+  }
+  return { latitude: Number(match[1]), longitude: Number(match[3]) };
+}
+
+function checkCoordinates(coordinates: string): string | null {
+  const point = parseCoordinates(coordinates);
+  if (!point) {
+    return 'Must be "latitude, longitude"';
+  }
+  if (Math.abs(point.latitude) > 90) {
+    return "Latitude must be between -90 and 90";
+  }
+  if (Math.abs(point.longitude) > 180) {
+    return "Longitude must be between -180 and 180";
+  }
+  if (
+    point.latitude < INDONESIA_BOUNDS.minLatitude ||
+    point.latitude > INDONESIA_BOUNDS.maxLatitude ||
+    point.longitude < INDONESIA_BOUNDS.minLongitude ||
+    point.longitude > INDONESIA_BOUNDS.maxLongitude
+  ) {
+    return "Location must be in Indonesia";
+  }
+  return null;
+}
+
+async function checkBuildingType(type: string): Promise<string | null> {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    "SELECT id FROM building_types WHERE type = ?",
+    [type],
+  );
+  return rows.length > 0 ? null : "Unknown building type";
+}
+
+async function checkSalesman(name: string): Promise<string | null> {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    "SELECT id FROM salesman WHERE name = ? AND active = 1",
+    [name],
+  );
+  return rows.length > 0 ? null : "Unknown salesman";
+}
+
+async function checkBranch(code: string): Promise<string | null> {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    "SELECT active FROM branches WHERE code = ?",
+    [code],
+  );
+  if (!rows[0]) {
+    return "Unknown branch";
+  }
+  return rows[0].active ? null : "Branch is closed";
+}
+
+async function branchCodes(): Promise<string[]> {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    "SELECT code FROM branches",
+  );
+  return rows.map((row) => row.code);
+}
+
+function checkOperatorSpreadsheet(target: string): string | null {
+  const targets: string[] = operatorSpreadsheets();
+  return targets.includes(target)
+    ? null
+    : `Must be one of: ${targets.join(", ")}`;
+}
+
+function checkTimezone(timezone: string): string | null {
+  try {
+    new Intl.DateTimeFormat("en", { timeZone: timezone });
+    return null;
+  } catch {
+    return "Unknown timezone";
+  }
+}
+
+export const submissionSchema = {
+  salesmanName: {
+    type: "string",
+    required: true,
+    maxLength: VARCHAR_LENGTH,
+    check: checkSalesman,
+  },
+  // Sent by forms that pick the salesman from the list; older forms only
+  // send the name
+  salesmanEmployeeId: { type: "string", maxLength: 10 },
+  customerName: { type: "string", required: true, maxLength: VARCHAR_LENGTH },
+  customerAddress: { type: "string", required: true, maxLength: TEXT_LENGTH },
+  customerHomeNo: { type: "string", required: true, maxLength: VARCHAR_LENGTH },
+  village: { type: "string", required: true, maxLength: TEXT_LENGTH },
+  coordinates: {
+    type: "string",
+    required: true,
+    maxLength: VARCHAR_LENGTH,
+    check: checkCoordinates,
+  },
+  buildingType: {
+    type: "string",
+    required: true,
+    maxLength: VARCHAR_LENGTH,
+    check: checkBuildingType,
+  },
+  operators: {
+    type: "string[]",
+    required: true,
+    oneOf: activeOperatorCodes,
+  },
+  remarks: { type: "string", maxLength: TEXT_LENGTH },
+} satisfies Schema;
+
+export const salesmanSchema = {
+  name: { type: "string", required: true, maxLength: VARCHAR_LENGTH },
+  employee_id: {
+    type: "string",
+    required: true,
+    maxLength: 10,
+  },
+  branch_id: {
+    type: "string",
+    required: true,
+    maxLength: 4,
+    check: checkBranch,
+  },
+} satisfies Schema;
+
+// The employee ID identifies the salesman and can't be changed
+const { employee_id: _employeeId, ...salesmanUpdateFields } = salesmanSchema;
+export const salesmanUpdateSchema = salesmanUpdateFields satisfies Schema;
+
+export const branchSchema = {
+  code: {
+    type: "string",
+    required: true,
+    maxLength: 4,
+    pattern: /^[0-9A-Za-z]+$/,
+    patternMessage: "Must be letters and digits only",
+  },
+  name: { type: "string", required: true, maxLength: 100 },
+  timezone: {
+    type: "string",
+    required: true,
+    maxLength: 50,
+    check: checkTimezone,
+  },
+  spreadsheetTargets: {
+    type: "string[]",
+    required: true,
+    oneOf: spreadsheetTargets,
+  },
+} satisfies Schema;
+
+// The code identifies the branch and can't be changed
+const { code: _code, ...branchUpdateFields } = branchSchema;
+export const branchUpdateSchema = branchUpdateFields satisfies Schema;
+
+export const operatorSchema = {
+  code: {
+    type: "string",
+    required: true,
+    maxLength: 20,
+    pattern: /^[0-9A-Za-z]+$/,
+    patternMessage: "Must be letters and digits only",
+  },
+  name: { type: "string", required: true, maxLength: 100 },
+  branches: { type: "string[]", oneOf: branchCodes },
+  // Only operator spreadsheets; every submission goes to the "all" one
+  spreadsheetTarget: {
+    type: "string",
+    check: checkOperatorSpreadsheet,
+  },
+  automatedCheck: { type: "boolean" },
+} satisfies Schema;
+
+// The code identifies the operator and can't be changed
+const { code: _operatorCode, ...operatorUpdateFields } = operatorSchema;
+export const operatorUpdateSchema = operatorUpdateFields satisfies Schema;
+
+export const buildingTypeSchema = {
+  type: { type: "string", required: true, maxLength: VARCHAR_LENGTH },
+} satisfies Schema;
+
+// Operators can't be changed after submission, see EDITABLE_FIELDS. The
+// salesman is corrected by name.
+const {
+  operators: _operators,
+  salesmanEmployeeId: _salesmanEmployeeId,
+  ...editableSubmissionFields
+} = submissionSchema;
+export const submissionEditSchema = editableSubmissionFields satisfies Schema;
+
+// Who is making an admin change, and why
+export const changeAuthorSchema = {
+  changedBy: { type: "string", required: true, maxLength: VARCHAR_LENGTH },
+  reason: { type: "string", maxLength: TEXT_LENGTH },
+} satisfies Schema;
@@ -0,0 +1,366 @@
+import { google } from "googleapis";
+import type { RowDataPacket } from "mysql2/promise";
+import { SHEETS_DRIVER } from "../config";
+import { formatMySQLDateTime } from "../dates";
+import { pool } from "../db";
+import {
+  type SheetField,
+  type SheetMapping,
+  type SpreadsheetTarget,
+  sheetMappings,
+} from "./mappings";
+
+export type { SheetField, SpreadsheetTarget } from "./mappings";
+
+export type SheetValues = Partial<Record<SheetField, string>>;
+
+/**
+ * Raised when a submission has no row in a spreadsheet, so nothing is
+ * written to a guessed row
+ */
+export class SheetRowNotFoundError extends Error {
+  constructor(
+    public submissionId: string,
+    public target: SpreadsheetTarget,
+  ) {
+    super(
+      `Submission ${submissionId} not found in the "${target}" spreadsheet`,
+    );
+    this.name = "SheetRowNotFoundError";
+  }
+}
+
+// How long a sheet's header row is trusted before it is read again
+const HEADER_CACHE_MS = 10 * 60 * 1000;
+
+const headerCache = new Map<
+  SpreadsheetTarget,
+  { columns: Map<SheetField, number>; loadedAt: number }
+>();
+
+type ValuesRequest = {
+  spreadsheetId: string;
+  range: string;
+  valueInputOption?: string;
+  requestBody?: { values: any[][] };
+};
+
+// The part of the Sheets API the sync uses, also implemented by the fake
+export type SheetsClient = {
+  spreadsheets: {
+    values: {
+      get(
+        params: ValuesRequest,
+      ): Promise<{ data: { values?: any[][] | null } }>;
+      append(params: ValuesRequest): Promise<{
+        data: { updates?: { updatedRange?: string | null } | null };
+      }>;
+      update(params: ValuesRequest): Promise<unknown>;
+    };
+  };
+};
+
+export async function getSheetsClient(): Promise<SheetsClient> {
+  if (SHEETS_DRIVER === "fake") {
+    // Loaded only in fake mode so production builds never run it
+    const { fakeSheets } = await import("../fakes");
+    return fakeSheets;
+  }
+
+  const auth = new google.auth.GoogleAuth({
+    keyFile: process.env.SERVICE_ACCOUNT_JSON_KEY_FILE,
+    scopes: ["https://www.googleapis.com/auth/spreadsheets"],
+  });
+  const authClient = await auth.getClient();
+  return google.sheets({ version: "v4", auth: authClient as any });
+}
+
+export function isSheetConfigured(target: SpreadsheetTarget): boolean {
+  return Boolean(sheetMappings[target].spreadsheetId);
+}
+
+function mappingFor(target: SpreadsheetTarget) {
+  const mapping = sheetMappings[target];
+  if (!mapping.spreadsheetId) {
+    throw new Error(`No spreadsheet configured for target "${target}"`);
+  }
+  return mapping as SheetMapping & { spreadsheetId: string };
+}
+
+function columnIndex(letters: string): number {
+  let index = 0;
+  for (const letter of letters.toUpperCase()) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function columnLetters(index: number): string {
+  let letters = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+function sheetRange(mapping: SheetMapping, range: string) {
+  return `'${mapping.sheetName.replace(/'/g, "''")}'!${range}`;
+}
+
+/**
+ * Resolves the column of every mapped field from the sheet's header row,
+ * falling back to the mapping's fixed column when the header is missing
+ */
+async function resolveColumns(
+  sheets: SheetsClient,
+  target: SpreadsheetTarget,
+): Promise<Map<SheetField, number>> {
+  const cached = headerCache.get(target);
+  if (cached && Date.now() - cached.loadedAt < HEADER_CACHE_MS) {
+    return cached.columns;
+  }
+
+  const mapping = mappingFor(target);
+  const response = await sheets.spreadsheets.values.get({
+    spreadsheetId: mapping.spreadsheetId,
+    range: sheetRange(mapping, "1:1"),
+  });
+  const headers = (response.data.values?.[0] || []).map((header) =>
+    String(header).trim().toLowerCase(),
+  );
+
+  const columns = new Map<SheetField, number>();
+  for (const column of mapping.columns) {
+    const index = headers.indexOf(column.header.toLowerCase());
+    if (index !== -1) {
+      columns.set(column.field, index);
+    } else if (column.fallback) {
+      columns.set(column.field, columnIndex(column.fallback));
+    }
+  }
+  if (!columns.has("id")) {
+    throw new Error(`The "${target}" spreadsheet has no submission ID column`);
+  }
+
+  headerCache.set(target, { columns, loadedAt: Date.now() });
+  return columns;
+}
+
+async function saveRowNumbers(
+  mapping: SheetMapping & { spreadsheetId: string },
+  rows: [submissionId: string, rowNumber: number][],
+) {
+  if (rows.length === 0) {
+    return;
+  }
+  const now = formatMySQLDateTime(new Date());
+  await pool.query(
+    `INSERT INTO sheet_rows (spreadsheet_id, sheet_name, submission_id, sheet_row, updated_at)
+     VALUES ?
+     ON DUPLICATE KEY UPDATE sheet_row = VALUES(sheet_row), updated_at = VALUES(updated_at)`,
+    [
+      rows.map(([submissionId, rowNumber]) => [
+        mapping.spreadsheetId,
+        mapping.sheetName,
+        submissionId,
+        rowNumber,
+        now,
+      ]),
+    ],
+  );
+}
+
+/**
+ * Reads the ID column of a sheet and refreshes the stored row index from it.
+ * Returns the row number of every ID found in the sheet.
+ */
+async function reindexSheet(
+  sheets: SheetsClient,
+  target: SpreadsheetTarget,
+): Promise<Map<string, number>> {
+  const mapping = mappingFor(target);
+  const columns = await resolveColumns(sheets, target);
+  const idColumn = columnLetters(columns.get("id")!);
+  const idHeader = mapping.columns.find((column) => column.field === "id")!;
+  const response = await sheets.spreadsheets.values.get({
+    spreadsheetId: mapping.spreadsheetId,
+    range: sheetRange(mapping, `${idColumn}:${idColumn}`),
+  });
+
+  const rowNumbers = new Map<string, number>();
+  (response.data.values || []).forEach((row, index) => {
+    const submissionId = String(row[0] ?? "").trim();
+    const isHeader =
+      index === 0 &&
+      submissionId.toLowerCase() === idHeader.header.toLowerCase();
+    if (submissionId && !isHeader && !rowNumbers.has(submissionId)) {
+      rowNumbers.set(submissionId, index + 1);
+    }
+  });
+  await saveRowNumbers(mapping, [...rowNumbers]);
+  return rowNumbers;
+}
+
+/**
+ * Returns the indexed row of a submission if that row still holds it
+ */
+async function indexedRow(
+  sheets: SheetsClient,
+  target: SpreadsheetTarget,
+  submissionId: string,
+): Promise<number | null> {
+  const mapping = mappingFor(target);
+  const [indexRows] = await pool.execute<RowDataPacket[]>(
+    `SELECT sheet_row FROM sheet_rows
+     WHERE spreadsheet_id = ? AND sheet_name = ? AND submission_id = ?`,
+    [mapping.spreadsheetId, mapping.sheetName, submissionId],
+  );
+  const indexed = indexRows[0];
+  if (!indexed) {
+    return null;
+  }
+
+  const rowNumber: number = indexed.sheet_row;
+  const columns = await resolveColumns(sheets, target);
+  const idCell = `${columnLetters(columns.get("id")!)}${rowNumber}`;
+  const response = await sheets.spreadsheets.values.get({
+    spreadsheetId: mapping.spreadsheetId,
+    range: sheetRange(mapping, idCell),
+  });
+  return String(response.data.values?.[0]?.[0] ?? "").trim() === submissionId
+    ? rowNumber
+    : null;
+}
+
+/**
+ * Returns the row of a submission from the stored index, rescanning the
+ * sheet when the index is missing or stale. Throws SheetRowNotFoundError if
+ * the ID is not in the sheet.
+ */
+async function findRow(
+  sheets: SheetsClient,
+  target: SpreadsheetTarget,
+  submissionId: string,
+): Promise<number> {
+  const rowNumber =
+    (await indexedRow(sheets, target, submissionId)) ??
+    (await reindexSheet(sheets, target)).get(submissionId);
+  if (rowNumber === undefined) {
+    const mapping = mappingFor(target);
+    await pool.execute(
+      `DELETE FROM sheet_rows
+       WHERE spreadsheet_id = ? AND sheet_name = ? AND submission_id = ?`,
+      [mapping.spreadsheetId, mapping.sheetName, submissionId],
+    );
+    throw new SheetRowNotFoundError(submissionId, target);
+  }
+  return rowNumber;
+}
+
+/**
+ * Whether the stored index places a submission in the sheet. Only the
+ * indexed row is read, so IDs written outside this module need a
+ * `scanSheetRows` first.
+ */
+export async function isIndexedInSheet(
+  target: SpreadsheetTarget,
+  submissionId: string,
+): Promise<boolean> {
+  const sheets = await getSheetsClient();
+  return (await indexedRow(sheets, target, submissionId)) !== null;
+}
+
+/**
+ * Reads every submission ID in a sheet, refreshing the stored row index
+ */
+export async function scanSheetRows(
+  target: SpreadsheetTarget,
+): Promise<Map<string, number>> {
+  const sheets = await getSheetsClient();
+  return reindexSheet(sheets, target);
+}
+
+/**
+ * Appends a row for a submission and stores its row number
+ */
+export async function appendSheetRow(
+  target: SpreadsheetTarget,
+  submissionId: string,
+  values: SheetValues,
+) {
+  const mapping = mappingFor(target);
+  const sheets = await getSheetsClient();
+  const columns = await resolveColumns(sheets, target);
+
+  const row: string[] = [];
+  for (const [field, value] of Object.entries({
+    ...values,
+    id: submissionId,
+  })) {
+    const index = columns.get(field as SheetField);
+    if (index !== undefined) {
+      row[index] = value ?? "";
+    }
+  }
+
+  const response = await sheets.spreadsheets.values.append({
+    spreadsheetId: mapping.spreadsheetId,
+    range: sheetRange(mapping, "A1"), // Just specify the sheet, not actual last row
+    valueInputOption: "USER_ENTERED",
+    requestBody: {
+      values: [Array.from(row, (value) => value ?? "")],
+    },
+  });
+
+  // e.g. "Sheet1!A57:L57"
+  const updatedRange = response.data.updates?.updatedRange || "";
+  const match = updatedRange.match(/![A-Z]+(\d+)/);
+  if (match) {
+    await saveRowNumbers(mapping, [[submissionId, Number(match[1])]]);
+  }
+}
+
+/**
+ * Overwrites the given fields in the row of a submission, leaving the
+ * other columns untouched
+ */
+export async function updateSheetRow(
+  target: SpreadsheetTarget,
+  submissionId: string,
+  values: SheetValues,
+) {
+  const mapping = mappingFor(target);
+  const sheets = await getSheetsClient();
+  const columns = await resolveColumns(sheets, target);
+  const rowNumber = await findRow(sheets, target, submissionId);
+
+  const cells = Object.entries(values)
+    .filter(([field]) => field !== "id" && columns.has(field as SheetField))
+    .map(([field, value]) => ({
+      index: columns.get(field as SheetField)!,
+      value: value ?? "",
+    }))
+    .sort((a, b) => a.index - b.index);
+
+  // One write per run of adjacent columns
+  const runs: { start: number; values: string[] }[] = [];
+  for (const cell of cells) {
+    const run = runs[runs.length - 1];
+    if (run && run.start + run.values.length === cell.index) {
+      run.values.push(cell.value);
+    } else {
+      runs.push({ start: cell.index, values: [cell.value] });
+    }
+  }
+
+  for (const run of runs) {
+    await sheets.spreadsheets.values.update({
+      spreadsheetId: mapping.spreadsheetId,
+      range: sheetRange(mapping, `${columnLetters(run.start)}${rowNumber}`),
+      valueInputOption: "USER_ENTERED",
+      requestBody: {
+        values: [run.values],
+      },
+    });
+  }
+}
@@ -0,0 +1,81 @@
+// "all" receives every submission, "fs" only those sold with Fiberstar
+export type SpreadsheetTarget = "all" | "fs";
+
+/**
+ * Values a sheet row can be filled with, from the submission or from an
+ * operator's coverage result
+ */
+export type SheetField =
+  | "id"
+  | "submittedAt"
+  | "customerName"
+  | "address"
+  | "customerHomeNo"
+  | "coordinates"
+  | "salesmanName"
+  | "buildingType"
+  | "photos"
+  | "remarks"
+  | "branch"
+  | "operators"
+  | "coverageStatus"
+  | "homepassedId"
+  | "operatorRemarks"
+  | "ticketClosedDate";
+
+export type SheetColumn = {
+  field: SheetField;
+  // Text of the header cell in row 1, matched case-insensitively
+  header: string;
+  // Column used when the sheet has no such header, e.g. "K"
+  fallback?: string;
+};
+
+export type SheetMapping = {
+  spreadsheetId: string | undefined;
+  sheetName: string;
+  columns: SheetColumn[];
+};
+
+const submissionColumns: SheetColumn[] = [
+  { field: "id", header: "ID", fallback: "A" },
+  { field: "submittedAt", header: "Timestamp", fallback: "B" },
+  { field: "customerName", header: "Customer Name", fallback: "C" },
+  { field: "address", header: "Address", fallback: "D" },
+  { field: "customerHomeNo", header: "Home No", fallback: "E" },
+  { field: "coordinates", header: "Coordinates", fallback: "F" },
+  { field: "salesmanName", header: "Salesman", fallback: "G" },
+  { field: "buildingType", header: "Building Type", fallback: "H" },
+  { field: "photos", header: "Photos", fallback: "I" },
+  { field: "remarks", header: "Remarks", fallback: "J" },
+];
+
+export const sheetMappings: Record<SpreadsheetTarget, SheetMapping> = {
+  all: {
+    spreadsheetId: process.env.ALL_CHECK_COVERAGE_SPREADSHEET,
+    sheetName: process.env.ALL_CHECK_COVERAGE_SHEET_NAME || "Sheet1",
+    columns: [
+      ...submissionColumns,
+      { field: "branch", header: "Branch", fallback: "K" },
+      { field: "operators", header: "Operators", fallback: "L" },
+    ],
+  },
+  fs: {
+    spreadsheetId: process.env.FS_CHECK_COVERAGE_SPREADSHEET,
+    sheetName: process.env.FS_CHECK_COVERAGE_SHEET_NAME || "Sheet1",
+    columns: [
+      ...submissionColumns,
+      // Coverage results occupy K to N on this sheet, so the branch is only
+      // written where the sheet has a header for it
+      { field: "branch", header: "Branch" },
+      { field: "coverageStatus", header: "Coverage Status", fallback: "K" },
+      { field: "homepassedId", header: "Homepassed ID", fallback: "L" },
+      { field: "operatorRemarks", header: "Operator Remarks", fallback: "M" },
+      {
+        field: "ticketClosedDate",
+        header: "Ticket Closed Date",
+        fallback: "N",
+      },
+    ],
+  },
+};
@@ -0,0 +1,115 @@
+import type { RowDataPacket } from "mysql2/promise";
+import { DEFAULT_TIMEZONE } from "./config";
+import { formatInTimeZone, formatMySQLDateTime } from "./dates";
+import { pool } from "./db";
+import { photoUrl } from "./photos";
+import {
+  appendSheetRow,
+  isIndexedInSheet,
+  type SheetValues,
+  type SpreadsheetTarget,
+  updateSheetRow,
+} from "./sheetSync";
+
+export type { SpreadsheetTarget } from "./sheetSync";
+
+// Column recording when a submission was written to each spreadsheet
+export const spreadsheetColumns: Record<
+  SpreadsheetTarget,
+  "writeToAllOperatorSpreadsheetAt" | "writeToFSOperatorSpreadsheetAt"
+> = {
+  all: "writeToAllOperatorSpreadsheetAt",
+  fs: "writeToFSOperatorSpreadsheetAt",
+};
+
+async function loadSubmission(submissionId: string) {
+  const [submissionRows] = await pool.execute<RowDataPacket[]>(
+    `SELECT * FROM submissions WHERE id = ? LIMIT 1`,
+    [submissionId],
+  );
+  const submission = submissionRows[0];
+  if (!submission) {
+    throw new Error(`Submission ${submissionId} not found`);
+  }
+  return submission;
+}
+
+/**
+ * Builds the sheet values of a submission, placed into columns by the
+ * spreadsheet's mapping
+ */
+async function buildSpreadsheetValues(
+  submission: RowDataPacket,
+): Promise<SheetValues> {
+  const [photoRows] = await pool.execute<RowDataPacket[]>(
+    `SELECT filename FROM building_photos WHERE submission_id = ?`,
+    [submission.id],
+  );
+  const operators: string[] =
+    typeof submission.operators === "string"
+      ? JSON.parse(submission.operators)
+      : submission.operators;
+
+  return {
+    id: submission.id,
+    // Local time of the branch the submission was made at
+    submittedAt: formatInTimeZone(
+      new Date(submission.timestamp),
+      submission.branchTimezone ?? DEFAULT_TIMEZONE,
+    ),
+    customerName: submission.customerName,
+    address: submission.customerAddress + " " + submission.village,
+    customerHomeNo: submission.customerHomeNo,
+    coordinates: submission.coordinates,
+    salesmanName: submission.salesmanName,
+    buildingType: submission.buildingType,
+    photos: photoRows
+      .map((photo) => photoUrl(submission.id, photo.filename))
+      .join(", "),
+    remarks: submission.cancelledAt
+      ? `CANCELLED: ${submission.cancelReason || ""}`.trim()
+      : submission.remarks,
+    // The branch as it was when the submission was made
+    branch: submission.branchName ?? "",
+    operators: operators.join(", "),
+  };
+}
+
+/**
+ * Appends a submission to an operator spreadsheet and records when it was
+ * written. Does nothing if the submission was already written there, and
+ * only records the write if a previous append reached the sheet.
+ */
+export async function appendSubmissionToSpreadsheet(
+  submissionId: string,
+  target: SpreadsheetTarget,
+) {
+  const column = spreadsheetColumns[target];
+  const submission = await loadSubmission(submissionId);
+  if (submission[column]) {
+    return;
+  }
+
+  if (!(await isIndexedInSheet(target, submissionId))) {
+    const values = await buildSpreadsheetValues(submission);
+    await appendSheetRow(target, submissionId, values);
+  }
+
+  await pool.execute(`UPDATE submissions SET ${column} = ? WHERE id = ?`, [
+    formatMySQLDateTime(new Date()),
+    submissionId,
+  ]);
+}
+
+/**
+ * Rewrites the row of an already written submission with its current data.
+ * Columns not mapped to submission fields, like coverage results, are kept.
+ */
+export async function updateSubmissionInSpreadsheet(
+  submissionId: string,
+  target: SpreadsheetTarget,
+) {
+  const submission = await loadSubmission(submissionId);
+  const values = await buildSpreadsheetValues(submission);
+  await updateSheetRow(target, submissionId, values);
+}
@@ -0,0 +1,42 @@
+import {
+  S3_ACCESS_KEY_ID,
+  S3_BUCKET,
+  S3_ENDPOINT,
+  S3_PREFIX,
+  S3_REGION,
+  S3_SECRET_ACCESS_KEY,
+  STORAGE_DRIVER,
+  UPLOADS_DIR,
+} from "../config";
+import { createLocalStorage } from "./local";
+import { createS3Storage } from "./s3";
+import type { StorageDriver } from "./types";
+
+export type { StorageDriver, StorageWriter } from "./types";
+
+/**
+ * Creates a storage driver by name ("local" or "s3") from the configuration
+ */
+export function createStorage(driver: string): StorageDriver {
+  switch (driver) {
+    case "local":
+      return createLocalStorage(UPLOADS_DIR);
+    case "s3":
+      if (!S3_BUCKET) {
+        throw new Error("S3_BUCKET must be set to use the s3 storage driver");
+      }
+      return createS3Storage({
+        bucket: S3_BUCKET,
+        endpoint: S3_ENDPOINT,
+        region: S3_REGION,
+        accessKeyId: S3_ACCESS_KEY_ID,
+        secretAccessKey: S3_SECRET_ACCESS_KEY,
+        prefix: S3_PREFIX,
+      });
+    default:
+      throw new Error(`Unknown storage driver: ${driver}`);
+  }
+}
+
+// Storage for building photos, as configured by STORAGE_DRIVER
+export const storage = createStorage(STORAGE_DRIVER);
@@ -0,0 +1,86 @@
+import { readdir, mkdir, rm } from "fs/promises";
+import { dirname, join, relative, sep } from "path";
+import type { StorageDriver } from "./types";
+
+function assertSafeKey(key: string) {
+  if (!key || key.startsWith("/") || key.split("/").includes("..")) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+}
+
+/**
+ * Stores files in a directory on this instance's disk
+ */
+export function createLocalStorage(root: string): StorageDriver {
+  const pathFor = (key: string) => {
+    assertSafeKey(key);
+    return join(root, key);
+  };
+
+  return {
+    name: "local",
+
+    async put(key, data) {
+      const path = pathFor(key);
+      await mkdir(dirname(path), { recursive: true });
+      await Bun.write(path, data);
+    },
+
+    async writer(key) {
+      const path = pathFor(key);
+      await mkdir(dirname(path), { recursive: true });
+      const sink = Bun.file(path).writer();
+      return {
+        async write(part) {
+          sink.write(part);
+          await sink.flush();
+        },
+        async end() {
+          await sink.end();
+        },
+      };
+    },
+
+    async open(key) {
+      const file = Bun.file(pathFor(key));
+      return (await file.exists()) ? file : null;
+    },
+
+    exists(key) {
+      return Bun.file(pathFor(key)).exists();
+    },
+
+    async delete(key) {
+      await rm(pathFor(key), { force: true });
+    },
+
+    async *list(prefix = "") {
+      // Only the directory the prefix points into is walked
+      const directory = prefix.slice(0, prefix.lastIndexOf("/") + 1);
+      let entries;
+      try {
+        entries = await readdir(
+          directory ? pathFor(directory.slice(0, -1)) : root,
+          { recursive: true, withFileTypes: true },
+        );
+      } catch (error: any) {
+        if (error?.code === "ENOENT") {
+          return;
+        }
+        throw error;
+      }
+
+      for (const entry of entries) {
+        if (!entry.isFile()) {
+          continue;
+        }
+        const key = relative(root, join(entry.parentPath, entry.name))
+          .split(sep)
+          .join("/");
+        if (key.startsWith(prefix)) {
+          yield key;
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,79 @@
+import { S3Client } from "bun";
+import type { StorageDriver } from "./types";
+
+export type S3StorageOptions = {
+  bucket: string;
+  endpoint?: string;
+  region?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  // Prepended to every key, e.g. "coverage-check/"
+  prefix?: string;
+};
+
+/**
+ * Stores files in an S3-compatible bucket (AWS, MinIO, R2, ...)
+ */
+export function createS3Storage(options: S3StorageOptions): StorageDriver {
+  const client = new S3Client({
+    bucket: options.bucket,
+    endpoint: options.endpoint || undefined,
+    region: options.region || undefined,
+    accessKeyId: options.accessKeyId || undefined,
+    secretAccessKey: options.secretAccessKey || undefined,
+  });
+  const prefix = options.prefix || "";
+
+  return {
+    name: "s3",
+
+    async put(key, data, contentType) {
+      await client.write(prefix + key, data, { type: contentType });
+    },
+
+    async writer(key, contentType) {
+      const sink = client.file(prefix + key).writer({ type: contentType });
+      return {
+        async write(part) {
+          sink.write(part);
+          await sink.flush();
+        },
+        async end() {
+          await sink.end();
+        },
+      };
+    },
+
+    async open(key) {
+      const file = client.file(prefix + key);
+      return (await file.exists()) ? file : null;
+    },
+
+    exists(key) {
+      return client.exists(prefix + key);
+    },
+
+    async delete(key) {
+      await client.delete(prefix + key);
+    },
+
+    async *list(listPrefix = "") {
+      let startAfter: string | undefined;
+      while (true) {
+        const page = await client.list({
+          prefix: prefix + listPrefix,
+          startAfter,
+          maxKeys: 1000,
+        });
+        for (const object of page.contents || []) {
+          yield object.key.slice(prefix.length);
+        }
+        const last = page.contents?.at(-1);
+        if (!page.isTruncated || !last) {
+          return;
+        }
+        startAfter = last.key;
+      }
+    },
+  };
+}
@@ -0,0 +1,22 @@
+/**
+ * Receives a file a part at a time, so large files aren't held in memory
+ */
+export interface StorageWriter {
+  write(part: Uint8Array): Promise<void>;
+  end(): Promise<void>;
+}
+
+/**
+ * Where uploaded files live. Keys are flat file names as stored in
+ * `building_photos`, optionally with "/"-separated prefixes.
+ */
+export interface StorageDriver {
+  name: string;
+  put(key: string, data: Uint8Array, contentType?: string): Promise<void>;
+  writer(key: string, contentType?: string): Promise<StorageWriter>;
+  // Returns null if there is no such file
+  open(key: string): Promise<Blob | null>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+  list(prefix?: string): AsyncIterable<string>;
+}
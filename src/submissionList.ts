@@ -0,0 +1,230 @@
+import type { RowDataPacket } from "mysql2/promise";
+import {
+  type DateRange,
+  formatMySQLDateTime,
+  parseDateRange,
+  parseTimeZone,
+} from "./dates";
+import { pool } from "./db";
+import { SUBMISSION_STATUSES, type SubmissionStatus } from "./lifecycle";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+// Sortable fields and the columns they order by
+const SORT_COLUMNS = {
+  timestamp: "s.timestamp",
+  customerName: "s.customerName",
+  salesmanName: "s.salesmanName",
+  village: "s.village",
+  status: "s.status",
+} as const;
+
+export type SubmissionSort = keyof typeof SORT_COLUMNS;
+
+const COVERAGE_FILTERS = ["pending", "covered", "not_covered"] as const;
+
+type CoverageFilter = (typeof COVERAGE_FILTERS)[number];
+
+function isCoverageFilter(value: string): value is CoverageFilter {
+  return (COVERAGE_FILTERS as readonly string[]).includes(value);
+}
+
+export type SubmissionListQuery = {
+  page: number;
+  pageSize: number;
+  sort: SubmissionSort;
+  order: "asc" | "desc";
+  // Zone the date range is read in and timestamps are rendered in
+  timeZone: string;
+  range: DateRange;
+  status?: SubmissionStatus;
+  salesman?: string;
+  branch?: string;
+  operator?: string;
+  coverage?: CoverageFilter;
+  buildingType?: string;
+  village?: string;
+  city?: string;
+};
+
+export type SubmissionListPage = {
+  rows: RowDataPacket[];
+  total: number;
+};
+
+function positiveInteger(value: string | undefined, fallback: number) {
+  if (value === undefined || value === "") {
+    return fallback;
+  }
+  return /^\d+$/.test(value) && Number(value) > 0 ? Number(value) : null;
+}
+
+/**
+ * Reads the paging, sorting and filter parameters of the submission list,
+ * e.g. ?page=2&pageSize=50&sort=customerName&order=asc&branch=062&tz=Asia/Makassar
+ */
+export function parseSubmissionListQuery(
+  params: Record<string, string | undefined>,
+): { ok: true; query: SubmissionListQuery } | { ok: false; error: string } {
+  const page = positiveInteger(params.page, 1);
+  const pageSize = positiveInteger(params.pageSize, DEFAULT_PAGE_SIZE);
+  if (page === null) {
+    return { ok: false, error: "Invalid page" };
+  }
+  if (pageSize === null || pageSize > MAX_PAGE_SIZE) {
+    return {
+      ok: false,
+      error: `pageSize must be between 1 and ${MAX_PAGE_SIZE}`,
+    };
+  }
+
+  const sort = params.sort || "timestamp";
+  if (!(sort in SORT_COLUMNS)) {
+    return { ok: false, error: "Invalid sort" };
+  }
+  const order = params.order || "desc";
+  if (order !== "asc" && order !== "desc") {
+    return { ok: false, error: "Invalid order" };
+  }
+
+  const timeZone = parseTimeZone(params.tz);
+  if (!timeZone) {
+    return { ok: false, error: "Invalid timezone" };
+  }
+  const range = parseDateRange(params.from, params.to, timeZone);
+  if (!range) {
+    return { ok: false, error: "Invalid date range" };
+  }
+
+  const { status } = params;
+  if (status && !SUBMISSION_STATUSES.includes(status as SubmissionStatus)) {
+    return { ok: false, error: "Invalid status" };
+  }
+  const coverage = params.coverage || undefined;
+  if (coverage !== undefined && !isCoverageFilter(coverage)) {
+    return { ok: false, error: "Invalid coverage status" };
+  }
+
+  return {
+    ok: true,
+    query: {
+      page,
+      pageSize,
+      sort: sort as SubmissionSort,
+      order,
+      timeZone,
+      range,
+      status: (status as SubmissionStatus) || undefined,
+      salesman: params.salesman || undefined,
+      branch: params.branch || undefined,
+      operator: params.operator || undefined,
+      coverage,
+      buildingType: params.buildingType || undefined,
+      village: params.village || undefined,
+      city: params.city || undefined,
+    },
+  };
+}
+
+function whereClause(query: SubmissionListQuery) {
+  const conditions: string[] = [];
+  const params: string[] = [];
+
+  if (query.range.from) {
+    conditions.push("s.timestamp >= ?");
+    params.push(formatMySQLDateTime(query.range.from));
+  }
+  if (query.range.to) {
+    conditions.push("s.timestamp < ?");
+    params.push(formatMySQLDateTime(query.range.to));
+  }
+  if (query.status) {
+    conditions.push("s.status = ?");
+    params.push(query.status);
+  }
+  // An employee ID, or the name the submission was made under
+  if (query.salesman) {
+    conditions.push("(s.salesmanEmployeeId = ? OR s.salesmanName = ?)");
+    params.push(query.salesman, query.salesman);
+  }
+  if (query.branch) {
+    conditions.push("s.branchCode = ?");
+    params.push(query.branch);
+  }
+  if (query.operator) {
+    conditions.push("JSON_CONTAINS(s.operators, JSON_QUOTE(?))");
+    params.push(query.operator);
+  }
+  if (query.buildingType) {
+    conditions.push("s.buildingType = ?");
+    params.push(query.buildingType);
+  }
+  // The village field holds "postal code, village, district, city, province"
+  if (query.village) {
+    conditions.push("s.village LIKE ?");
+    params.push(`%${query.village}%`);
+  }
+  if (query.city) {
+    conditions.push(
+      "TRIM(SUBSTRING_INDEX(SUBSTRING_INDEX(s.village, ',', 4), ',', -1)) = ?",
+    );
+    params.push(query.city.trim());
+  }
+  if (query.coverage) {
+    const checkConditions = ["cc.submission_id = s.id"];
+    if (query.operator) {
+      checkConditions.push("cc.operator = ?");
+      params.push(query.operator);
+    }
+    if (query.coverage === "pending") {
+      checkConditions.push("cr.status IS NULL");
+    } else {
+      checkConditions.push("cr.status = ?");
+      params.push(query.coverage);
+    }
+    conditions.push(`EXISTS (
+      SELECT 1 FROM coverage_checks cc
+      LEFT JOIN coverage_results cr
+        ON cr.submission_id = cc.submission_id AND cr.operator = cc.operator
+      WHERE ${checkConditions.join(" AND ")}
+    )`);
+  }
+
+  return {
+    sql: conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "",
+    params,
+  };
+}
+
+/**
+ * Loads one page of submissions with their photo filenames, and the number
+ * of submissions matching the filters
+ */
+export async function listSubmissions(
+  query: SubmissionListQuery,
+): Promise<SubmissionListPage> {
+  const where = whereClause(query);
+  const direction = query.order === "asc" ? "ASC" : "DESC";
+
+  const [[countRows], [rows]] = await Promise.all([
+    pool.query<RowDataPacket[]>(
+      `SELECT COUNT(*) AS total FROM submissions s ${where.sql}`,
+      where.params,
+    ),
+    pool.query<RowDataPacket[]>(
+      `SELECT s.*,
+         (SELECT GROUP_CONCAT(bp.filename ORDER BY bp.id)
+          FROM building_photos bp WHERE bp.submission_id = s.id) AS photo_filenames,
+         (SELECT GROUP_CONCAT(COALESCE(bp.thumbnail_filename, '') ORDER BY bp.id)
+          FROM building_photos bp WHERE bp.submission_id = s.id) AS thumbnail_filenames
+       FROM submissions s
+       ${where.sql}
+       ORDER BY ${SORT_COLUMNS[query.sort]} ${direction}, s.id ${direction}
+       LIMIT ? OFFSET ?`,
+      [...where.params, query.pageSize, (query.page - 1) * query.pageSize],
+    ),
+  ]);
+
+  return { rows, total: Number(countRows[0]?.total ?? 0) };
+}
@@ -0,0 +1,327 @@
+import type { PoolConnection, RowDataPacket } from "mysql2/promise";
+import { createCoverageChecks } from "./coverage";
+import { formatMySQLDateTime } from "./dates";
+import { pool } from "./db";
+import { saveSubmissionLocation } from "./geo";
+import { type SubmissionStatus, transitionSubmission } from "./lifecycle";
+import { spreadsheetTargets, spreadsheetsFedBy } from "./operators/catalog";
+import { enqueueOutboxEvent } from "./outbox";
+import type { SpreadsheetTarget } from "./sheetSync";
+import { spreadsheetColumns } from "./spreadsheets";
+
+/**
+ * Queues the spreadsheet writes and coverage bot dispatches of a submission
+ * for the outbox worker. Runs inside the caller's transaction.
+ */
+export async function queueSubmissionSideEffects(
+  connection: PoolConnection,
+  submissionId: string,
+  operators: string[],
+) {
+  // Spreadsheets of the submission's branch; older submissions go to all
+  const [rows] = await connection.execute<RowDataPacket[]>(
+    `SELECT spreadsheetTargets FROM submissions WHERE id = ?`,
+    [submissionId],
+  );
+  const targets: SpreadsheetTarget[] = !rows[0]?.spreadsheetTargets
+    ? spreadsheetTargets()
+    : typeof rows[0].spreadsheetTargets === "string"
+      ? JSON.parse(rows[0].spreadsheetTargets)
+      : rows[0].spreadsheetTargets;
+
+  // Operator spreadsheets only get the submissions of the operators feeding
+  // them
+  const fedSheets = await spreadsheetsFedBy(connection, operators);
+  for (const target of targets) {
+    if (target === "all" || fedSheets.includes(target)) {
+      await enqueueOutboxEvent(connection, submissionId, {
+        kind: "spreadsheet.append",
+        payload: { target },
+      });
+    }
+  }
+
+  const checkedOperators = await createCoverageChecks(
+    connection,
+    submissionId,
+    operators,
+  );
+  for (const operator of checkedOperators) {
+    await enqueueOutboxEvent(connection, submissionId, {
+      kind: "coverage.dispatch",
+      payload: { operator },
+    });
+  }
+}
+
+// Fields an admin can correct after submission
+export const EDITABLE_FIELDS = [
+  "salesmanName",
+  "customerName",
+  "customerAddress",
+  "customerHomeNo",
+  "village",
+  "coordinates",
+  "buildingType",
+  "remarks",
+] as const;
+
+export type EditableField = (typeof EDITABLE_FIELDS)[number];
+
+// Changing any of these needs a new coverage check
+const LOCATION_FIELDS: EditableField[] = [
+  "customerAddress",
+  "customerHomeNo",
+  "village",
+  "coordinates",
+];
+
+export type SubmissionChangeResult =
+  | { status: "not_found" }
+  | { status: "cancelled" }
+  | {
+      status: "changed";
+      changedFields: string[];
+      submissionStatus: SubmissionStatus;
+    };
+
+async function recordRevision(
+  connection: PoolConnection,
+  submissionId: string,
+  field: string,
+  oldValue: string | null,
+  newValue: string | null,
+  changedBy: string,
+  changedAt: string,
+) {
+  await connection.execute(
+    `INSERT INTO submission_revisions (submission_id, field, old_value, new_value, changed_by, changed_at)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [submissionId, field, oldValue, newValue, changedBy, changedAt],
+  );
+}
+
+/**
+ * Rewrites the spreadsheet rows the submission was already written to
+ */
+async function queueSpreadsheetUpdates(
+  connection: PoolConnection,
+  submission: RowDataPacket,
+) {
+  for (const target of spreadsheetTargets()) {
+    if (submission[spreadsheetColumns[target]]) {
+      await enqueueOutboxEvent(connection, submission.id, {
+        kind: "spreadsheet.update",
+        payload: { target },
+      });
+    }
+  }
+}
+
+/**
+ * Applies admin corrections to a submission, records each changed field in
+ * its revision history and propagates the change to the spreadsheets. A
+ * location change re-dispatches the submission to the coverage bots.
+ */
+export async function updateSubmission(
+  submissionId: string,
+  changes: Partial<Record<EditableField, string>>,
+  changedBy: string,
+): Promise<SubmissionChangeResult> {
+  const connection = await pool.getConnection();
+  try {
+    await connection.beginTransaction();
+
+    const [rows] = await connection.execute<RowDataPacket[]>(
+      `SELECT * FROM submissions WHERE id = ? FOR UPDATE`,
+      [submissionId],
+    );
+    const submission = rows[0];
+    if (!submission) {
+      await connection.rollback();
+      return { status: "not_found" };
+    }
+    if (submission.status === "cancelled") {
+      await connection.rollback();
+      return { status: "cancelled" };
+    }
+
+    const changedFields = EDITABLE_FIELDS.filter(
+      (field) =>
+        changes[field] !== undefined &&
+        changes[field] !== (submission[field] ?? undefined),
+    );
+    if (changedFields.length === 0) {
+      await connection.commit();
+      return {
+        status: "changed",
+        changedFields,
+        submissionStatus: submission.status,
+      };
+    }
+
+    await connection.execute(
+      `UPDATE submissions SET ${changedFields.map((field) => `${field} = ?`).join(", ")} WHERE id = ?`,
+      [...changedFields.map((field) => changes[field]!), submissionId],
+    );
+
+    const changedAt = formatMySQLDateTime(new Date());
+    for (const field of changedFields) {
+      await recordRevision(
+        connection,
+        submissionId,
+        field,
+        submission[field] ?? null,
+        changes[field]!,
+        changedBy,
+        changedAt,
+      );
+    }
+
+    if (changedFields.includes("salesmanName")) {
+      await connection.execute(
+        `UPDATE submissions SET salesmanEmployeeId = (
+           SELECT employeeId FROM salesman WHERE name = ? AND active = 1 ORDER BY id LIMIT 1
+         ) WHERE id = ?`,
+        [changes.salesmanName, submissionId],
+      );
+    }
+    if (changedFields.includes("coordinates")) {
+      await saveSubmissionLocation(
+        connection,
+        submissionId,
+        changes.coordinates!,
+      );
+    }
+
+    await queueSpreadsheetUpdates(connection, submission);
+
+    let submissionStatus: SubmissionStatus = submission.status;
+    if (changedFields.some((field) => LOCATION_FIELDS.includes(field))) {
+      const [checkRows] = await connection.execute<RowDataPacket[]>(
+        `SELECT operator FROM coverage_checks WHERE submission_id = ?`,
+        [submissionId],
+      );
+      await connection.execute(
+        `UPDATE coverage_checks SET external_id = NULL, finished = 0, dispatched_at = NULL WHERE submission_id = ?`,
+        [submissionId],
+      );
+      // Results for the old location no longer apply
+      await connection.execute(
+        `DELETE FROM coverage_results WHERE submission_id = ?`,
+        [submissionId],
+      );
+      if (checkRows.length > 0) {
+        submissionStatus = "received";
+        await transitionSubmission(
+          submissionId,
+          "received",
+          `Location changed by ${changedBy}, coverage checked again`,
+          connection,
+        );
+      }
+      for (const check of checkRows) {
+        await enqueueOutboxEvent(connection, submissionId, {
+          kind: "coverage.dispatch",
+          payload: { operator: check.operator },
+        });
+      }
+    }
+
+    await connection.commit();
+    return { status: "changed", changedFields, submissionStatus };
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+}
+
+/**
+ * Cancels a submission: its coverage checks stop being polled and the
+ * spreadsheet rows are marked as cancelled
+ */
+export async function cancelSubmission(
+  submissionId: string,
+  reason: string | null,
+  changedBy: string,
+): Promise<SubmissionChangeResult> {
+  const connection = await pool.getConnection();
+  try {
+    await connection.beginTransaction();
+
+    const [rows] = await connection.execute<RowDataPacket[]>(
+      `SELECT * FROM submissions WHERE id = ? FOR UPDATE`,
+      [submissionId],
+    );
+    const submission = rows[0];
+    if (!submission) {
+      await connection.rollback();
+      return { status: "not_found" };
+    }
+    if (submission.status === "cancelled") {
+      await connection.rollback();
+      return { status: "cancelled" };
+    }
+
+    const cancelledAt = formatMySQLDateTime(new Date());
+    await connection.execute(
+      `UPDATE submissions SET cancelledAt = ?, cancelReason = ? WHERE id = ?`,
+      [cancelledAt, reason, submissionId],
+    );
+    await recordRevision(
+      connection,
+      submissionId,
+      "cancelledAt",
+      null,
+      cancelledAt,
+      changedBy,
+      cancelledAt,
+    );
+    if (reason) {
+      await recordRevision(
+        connection,
+        submissionId,
+        "cancelReason",
+        null,
+        reason,
+        changedBy,
+        cancelledAt,
+      );
+    }
+
+    await transitionSubmission(
+      submissionId,
+      "cancelled",
+      reason
+        ? `Cancelled by ${changedBy}: ${reason}`
+        : `Cancelled by ${changedBy}`,
+      connection,
+    );
+    await connection.execute(
+      `UPDATE coverage_checks SET finished = 1 WHERE submission_id = ? AND finished = 0`,
+      [submissionId],
+    );
+    // A cancelled lead needs no duplicate review
+    await connection.execute(
+      `UPDATE submission_duplicates SET status = 'dismissed', resolved_at = ?
+       WHERE submission_id = ? AND status = 'suspected'`,
+      [cancelledAt, submissionId],
+    );
+
+    await queueSpreadsheetUpdates(connection, submission);
+
+    await connection.commit();
+    return {
+      status: "changed",
+      changedFields: ["cancelledAt"],
+      submissionStatus: "cancelled",
+    };
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+}
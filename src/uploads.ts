@@ -0,0 +1,339 @@
+import { randomUUID } from "crypto";
+import type {
+  PoolConnection,
+  ResultSetHeader,
+  RowDataPacket,
+} from "mysql2/promise";
+import { UPLOAD_MAX_SIZE_MB, UPLOAD_SESSION_TTL_HOURS } from "./config";
+import { formatMySQLDateTime } from "./dates";
+import { pool } from "./db";
+import {
+  saveUploadParts,
+  sniffMediaType,
+  type MediaType,
+  type PhotoMetadata,
+  unsupportedMediaFormat,
+} from "./photos";
+import { storage } from "./storage";
+
+export type UploadSession = {
+  uploadId: string;
+  filename: string;
+  size: number;
+  offset: number;
+  status: "uploading" | "completed" | "attached" | "expired" | "failed";
+  expiresAt: string;
+};
+
+export type ChunkResult =
+  | { status: "not_found" }
+  | { status: "closed"; session: UploadSession }
+  | { status: "offset_mismatch"; session: UploadSession }
+  | { status: "too_large"; session: UploadSession }
+  // format names a recognized but rejected format, e.g. "HEIC photos"
+  | {
+      status: "unsupported_type";
+      session: UploadSession;
+      format: string | null;
+    }
+  // The chunks were accepted but couldn't be put together into a file
+  | { status: "failed"; session: UploadSession; reason: string }
+  | { status: "accepted"; session: UploadSession };
+
+export type AttachedUpload = {
+  filename: string;
+  thumbnailFilename: string | null;
+  mediaType: MediaType;
+  metadata: PhotoMetadata;
+};
+
+export const MAX_UPLOAD_SIZE = UPLOAD_MAX_SIZE_MB * 1024 * 1024;
+
+// Chunks are kept in storage so any instance can take the next one
+const chunkPrefix = (uploadId: string) => `upload-sessions/${uploadId}/`;
+const chunkKey = (uploadId: string, offset: number) =>
+  `${chunkPrefix(uploadId)}${String(offset).padStart(12, "0")}`;
+
+function expiryFrom(date: Date): string {
+  return formatMySQLDateTime(
+    new Date(date.getTime() + UPLOAD_SESSION_TTL_HOURS * 60 * 60 * 1000),
+  );
+}
+
+function toSession(row: RowDataPacket): UploadSession {
+  return {
+    uploadId: row.id,
+    filename: row.original_filename,
+    size: Number(row.size),
+    offset: Number(row.received),
+    status: row.status,
+    expiresAt: new Date(row.expires_at).toISOString(),
+  };
+}
+
+async function findSession(uploadId: string) {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    `SELECT * FROM upload_sessions WHERE id = ?`,
+    [uploadId],
+  );
+  return rows[0];
+}
+
+export async function createUploadSession(
+  filename: string,
+  size: number,
+): Promise<UploadSession> {
+  const id = randomUUID();
+  const now = new Date();
+  await pool.execute(
+    `INSERT INTO upload_sessions (id, original_filename, size, received, status, created_at, expires_at)
+     VALUES (?, ?, ?, 0, 'uploading', ?, ?)`,
+    [id, filename, size, formatMySQLDateTime(now), expiryFrom(now)],
+  );
+  return toSession((await findSession(id))!);
+}
+
+export async function getUploadSession(
+  uploadId: string,
+): Promise<UploadSession | null> {
+  const row = await findSession(uploadId);
+  return row ? toSession(row) : null;
+}
+
+export class UploadAssemblyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UploadAssemblyError";
+  }
+}
+
+// Reads the chunks of an upload one at a time, in upload order, and checks
+// that together they cover exactly `size` bytes with no gaps or overlaps
+async function* readChunks(
+  uploadId: string,
+  size: number,
+): AsyncGenerator<Uint8Array> {
+  const keys: string[] = [];
+  for await (const key of storage.list(chunkPrefix(uploadId))) {
+    keys.push(key);
+  }
+  // Zero-padded offsets sort in upload order
+  keys.sort();
+
+  let position = 0;
+  for (const key of keys) {
+    const offset = Number(key.slice(chunkPrefix(uploadId).length));
+    if (offset !== position) {
+      throw new UploadAssemblyError(`Expected a chunk at byte ${position}`);
+    }
+    const chunk = await storage.open(key);
+    if (!chunk) {
+      throw new UploadAssemblyError(`Chunk at byte ${offset} is missing`);
+    }
+    const bytes = new Uint8Array(await chunk.arrayBuffer());
+    position += bytes.length;
+    yield bytes;
+  }
+  if (position !== size) {
+    throw new UploadAssemblyError(`Received ${position} of ${size} bytes`);
+  }
+}
+
+async function deleteChunks(uploadId: string) {
+  for await (const key of storage.list(chunkPrefix(uploadId))) {
+    await storage.delete(key);
+  }
+}
+
+/**
+ * Stores the chunk that starts at `offset`. A client resuming after a
+ * disconnect asks for the session's offset and continues from there. The
+ * first chunk must start with the magic bytes of a supported type, and the
+ * final chunk assembles the file and stores it like an inline photo. A session
+ * whose chunks can't be assembled is marked failed and has to start over.
+ */
+export async function appendChunk(
+  uploadId: string,
+  offset: number,
+  chunk: Uint8Array,
+): Promise<ChunkResult> {
+  const row = await findSession(uploadId);
+  if (!row) {
+    return { status: "not_found" };
+  }
+  const session = toSession(row);
+  if (session.status !== "uploading" || new Date(row.expires_at) < new Date()) {
+    return { status: "closed", session };
+  }
+  if (offset !== session.offset) {
+    return { status: "offset_mismatch", session };
+  }
+  if (offset + chunk.length > session.size) {
+    return { status: "too_large", session };
+  }
+
+  const mediaType: MediaType | null =
+    offset === 0 ? sniffMediaType(chunk) : row.media_type;
+  if (!mediaType) {
+    await pool.execute(
+      `UPDATE upload_sessions SET status = 'expired' WHERE id = ?`,
+      [uploadId],
+    );
+    await deleteChunks(uploadId);
+    return {
+      status: "unsupported_type",
+      session: toSession((await findSession(uploadId))!),
+      format: unsupportedMediaFormat(chunk),
+    };
+  }
+
+  // Only one request can claim an offset, so the chunk stored under it is
+  // always the winner's
+  const received = offset + chunk.length;
+  const [result] = await pool.execute<ResultSetHeader>(
+    `UPDATE upload_sessions SET received = ?, media_type = ?, expires_at = ? WHERE id = ? AND received = ? AND status = 'uploading'`,
+    [received, mediaType, expiryFrom(new Date()), uploadId, offset],
+  );
+  if (result.affectedRows === 0) {
+    return {
+      status: "offset_mismatch",
+      session: toSession((await findSession(uploadId))!),
+    };
+  }
+
+  try {
+    await storage.put(chunkKey(uploadId, offset), chunk);
+  } catch (error) {
+    // Give the offset back so the client can send the chunk again
+    await pool.execute(
+      `UPDATE upload_sessions SET received = ? WHERE id = ? AND received = ? AND status = 'uploading'`,
+      [offset, uploadId, received],
+    );
+    throw error;
+  }
+
+  if (received === session.size) {
+    let saved: Awaited<ReturnType<typeof saveUploadParts>>;
+    try {
+      saved = await saveUploadParts(
+        readChunks(uploadId, session.size),
+        session.filename,
+        mediaType,
+      );
+    } catch (error) {
+      await pool.execute(
+        `UPDATE upload_sessions SET status = 'failed' WHERE id = ?`,
+        [uploadId],
+      );
+      await deleteChunks(uploadId);
+      if (!(error instanceof UploadAssemblyError)) {
+        throw error;
+      }
+      return {
+        status: "failed",
+        session: toSession((await findSession(uploadId))!),
+        reason: error.message,
+      };
+    }
+
+    const { filename, thumbnailFilename, metadata } = saved;
+    await pool.execute(
+      `UPDATE upload_sessions
+       SET status = 'completed', filename = ?, thumbnail_filename = ?, taken_at = ?, latitude = ?, longitude = ?
+       WHERE id = ?`,
+      [
+        filename,
+        thumbnailFilename,
+        metadata.takenAt ? formatMySQLDateTime(metadata.takenAt) : null,
+        metadata.latitude,
+        metadata.longitude,
+        uploadId,
+      ],
+    );
+    await deleteChunks(uploadId);
+  }
+
+  return {
+    status: "accepted",
+    session: toSession((await findSession(uploadId))!),
+  };
+}
+
+/**
+ * Attaches completed uploads to a submission inside its transaction. Returns
+ * the IDs that can't be attached (unknown, unfinished, expired or already
+ * used) as the second element.
+ */
+export async function attachUploads(
+  connection: PoolConnection,
+  uploadIds: string[],
+  submissionId: string,
+): Promise<[AttachedUpload[], string[]]> {
+  const attached: AttachedUpload[] = [];
+  const invalid: string[] = [];
+
+  for (const uploadId of uploadIds) {
+    const [rows] = await connection.execute<RowDataPacket[]>(
+      `SELECT * FROM upload_sessions WHERE id = ? FOR UPDATE`,
+      [uploadId],
+    );
+    const row = rows[0];
+    if (!row || row.status !== "completed") {
+      invalid.push(uploadId);
+      continue;
+    }
+
+    await connection.execute(
+      `UPDATE upload_sessions SET status = 'attached', submission_id = ? WHERE id = ?`,
+      [submissionId, uploadId],
+    );
+    attached.push({
+      filename: row.filename,
+      thumbnailFilename: row.thumbnail_filename,
+      mediaType: row.media_type,
+      metadata: {
+        latitude: row.latitude === null ? null : Number(row.latitude),
+        longitude: row.longitude === null ? null : Number(row.longitude),
+        takenAt: row.taken_at ? new Date(row.taken_at) : null,
+      },
+    });
+  }
+
+  return [attached, invalid];
+}
+
+/**
+ * Removes the chunks and files of sessions that were abandoned before they
+ * were completed or attached to a submission. Returns the number expired.
+ */
+export async function expireUploadSessions(): Promise<number> {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    `SELECT id, status, filename, thumbnail_filename FROM upload_sessions
+     WHERE status IN ('uploading', 'completed') AND expires_at < ?
+     LIMIT 100`,
+    [formatMySQLDateTime(new Date())],
+  );
+
+  let expired = 0;
+  for (const row of rows) {
+    // Skip sessions attached to a submission in the meantime
+    const [result] = await pool.execute<ResultSetHeader>(
+      `UPDATE upload_sessions SET status = 'expired' WHERE id = ? AND status = ?`,
+      [row.id, row.status],
+    );
+    if (result.affectedRows === 0) {
+      continue;
+    }
+
+    await deleteChunks(row.id);
+    if (row.filename) {
+      await storage.delete(row.filename);
+    }
+    if (row.thumbnail_filename) {
+      await storage.delete(row.thumbnail_filename);
+    }
+    expired++;
+  }
+
+  return expired;
+}
@@ -0,0 +1,219 @@
+/**
+ * Minimal declarative validation for request bodies. Each field declares its
+ * shape and constraints; all fields are checked and every failure is
+ * reported, so the frontend can show errors next to the matching input.
+ */
+
+export type FieldError = {
+  field: string;
+  message: string;
+};
+
+type Check<T> = (value: T) => string | null | Promise<string | null>;
+
+export type StringField = {
+  type: "string";
+  required?: boolean;
+  // Maximum length in characters, matching the DB column
+  maxLength?: number;
+  pattern?: RegExp;
+  patternMessage?: string;
+  check?: Check<string>;
+};
+
+export type StringListField = {
+  type: "string[]";
+  required?: boolean;
+  maxItems?: number;
+  // Checked against every item
+  oneOf?: () => string[] | Promise<string[]>;
+  check?: Check<string[]>;
+};
+
+export type BooleanField = {
+  type: "boolean";
+  required?: boolean;
+};
+
+export type Schema = Record<
+  string,
+  StringField | StringListField | BooleanField
+>;
+
+export type Validated<S extends Schema> = {
+  [K in keyof S]: S[K] extends StringListField
+    ? string[]
+    : S[K] extends BooleanField
+      ? S[K]["required"] extends true
+        ? boolean
+        : boolean | undefined
+      : S[K]["required"] extends true
+        ? string
+        : string | undefined;
+};
+
+export type ValidationResult<S extends Schema> =
+  | { success: true; value: Validated<S> }
+  | { success: false; errors: FieldError[] };
+
+async function validateString(
+  field: string,
+  rule: StringField,
+  raw: unknown,
+  errors: FieldError[],
+): Promise<string | undefined> {
+  if (raw !== undefined && raw !== null && typeof raw !== "string") {
+    errors.push({ field, message: "Must be a text value" });
+    return undefined;
+  }
+
+  const value = raw?.trim() || undefined;
+  if (value === undefined) {
+    if (rule.required) {
+      errors.push({ field, message: "This field is required" });
+    }
+    return undefined;
+  }
+
+  if (rule.maxLength !== undefined && value.length > rule.maxLength) {
+    errors.push({
+      field,
+      message: `Must be at most ${rule.maxLength} characters`,
+    });
+    return value;
+  }
+  if (rule.pattern && !rule.pattern.test(value)) {
+    errors.push({ field, message: rule.patternMessage || "Invalid format" });
+    return value;
+  }
+  if (rule.check) {
+    const message = await rule.check(value);
+    if (message) {
+      errors.push({ field, message });
+    }
+  }
+  return value;
+}
+
+async function validateStringList(
+  field: string,
+  rule: StringListField,
+  raw: unknown,
+  errors: FieldError[],
+): Promise<string[]> {
+  const list = raw === undefined || raw === null ? [] : raw;
+  if (!Array.isArray(list) || list.some((item) => typeof item !== "string")) {
+    errors.push({ field, message: "Must be a list of text values" });
+    return [];
+  }
+
+  const value = list.map((item: string) => item.trim()).filter(Boolean);
+  if (value.length === 0) {
+    if (rule.required) {
+      errors.push({ field, message: "Select at least one" });
+    }
+    return value;
+  }
+
+  if (rule.maxItems !== undefined && value.length > rule.maxItems) {
+    errors.push({ field, message: `Select at most ${rule.maxItems}` });
+    return value;
+  }
+  if (rule.oneOf) {
+    const allowed = await rule.oneOf();
+    const unknown = value.filter((item) => !allowed.includes(item));
+    if (unknown.length > 0) {
+      errors.push({ field, message: `Unknown value: ${unknown.join(", ")}` });
+      return value;
+    }
+  }
+  if (rule.check) {
+    const message = await rule.check(value);
+    if (message) {
+      errors.push({ field, message });
+    }
+  }
+  return value;
+}
+
+function validateBoolean(
+  field: string,
+  rule: BooleanField,
+  raw: unknown,
+  errors: FieldError[],
+): boolean | undefined {
+  if (raw === undefined || raw === null) {
+    if (rule.required) {
+      errors.push({ field, message: "This field is required" });
+    }
+    return undefined;
+  }
+  if (typeof raw !== "boolean") {
+    errors.push({ field, message: "Must be true or false" });
+    return undefined;
+  }
+  return raw;
+}
+
+// Request bodies are parsed JSON, which may as well be null, a number or a list
+function isPlainObject(input: unknown): input is Record<string, unknown> {
+  return typeof input === "object" && input !== null && !Array.isArray(input);
+}
+
+/**
+ * Validates `input` against `schema`. On success the returned value holds the
+ * trimmed strings; fields not in the schema are dropped. Input that isn't an
+ * object fails with a single error for the field "body".
+ */
+export async function validate<S extends Schema>(
+  schema: S,
+  input: unknown,
+): Promise<ValidationResult<S>> {
+  if (!isPlainObject(input)) {
+    return {
+      success: false,
+      errors: [{ field: "body", message: "Must be a JSON object" }],
+    };
+  }
+
+  const errors: FieldError[] = [];
+  const value: Record<string, unknown> = {};
+
+  for (const [field, rule] of Object.entries(schema)) {
+    value[field] =
+      rule.type === "string"
+        ? await validateString(field, rule, input[field], errors)
+        : rule.type === "boolean"
+          ? validateBoolean(field, rule, input[field], errors)
+          : await validateStringList(field, rule, input[field], errors);
+  }
+
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+  return { success: true, value: value as Validated<S> };
+}
+
+/**
+ * Validates only the fields present in `input`, for partial updates. A
+ * present but empty required field is still an error.
+ */
+export async function validatePartial<S extends Schema>(
+  schema: S,
+  input: unknown,
+): Promise<
+  | { success: true; value: Partial<Validated<S>> }
+  | { success: false; errors: FieldError[] }
+> {
+  if (!isPlainObject(input)) {
+    return validate(schema, input);
+  }
+  const presentFields = Object.fromEntries(
+    Object.entries(schema).filter(([field]) => input[field] !== undefined),
+  );
+  const result = await validate(presentFields, input);
+  if (!result.success) {
+    return result;
+  }
+  return { success: true, value: result.value as Partial<Validated<S>> };
+}
@@ -0,0 +1,126 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import {
+  COVERAGE_BOT_WEBHOOK_SECRET,
+  COVERAGE_BOT_WEBHOOK_TOLERANCE_SECONDS,
+} from "./config";
+import { formatMySQLDateTime } from "./dates";
+import { pool } from "./db";
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-Signature";
+export const WEBHOOK_TIMESTAMP_HEADER = "X-Timestamp";
+export const WEBHOOK_NONCE_HEADER = "X-Nonce";
+
+export type WebhookVerification =
+  | "ok"
+  | "not_configured"
+  | "invalid_signature"
+  | "stale"
+  | "replayed";
+
+/**
+ * Signature the coverage bot sends: hex HMAC-SHA256 of
+ * "<timestamp>.<nonce>.<raw body>" with the shared secret
+ */
+export function signWebhook(
+  timestamp: string,
+  nonce: string,
+  body: string,
+): string {
+  return createHmac("sha256", COVERAGE_BOT_WEBHOOK_SECRET)
+    .update(`${timestamp}.${nonce}.${body}`)
+    .digest("hex");
+}
+
+/**
+ * Checks a coverage bot callback's signature and freshness, then records
+ * its nonce so the same request is accepted only once. See receiveWebhook
+ * for giving the nonce back when handling fails.
+ */
+export async function verifyWebhook(
+  signature: string | undefined,
+  timestamp: string | undefined,
+  nonce: string | undefined,
+  body: string,
+): Promise<WebhookVerification> {
+  if (!COVERAGE_BOT_WEBHOOK_SECRET) {
+    return "not_configured";
+  }
+  if (!signature || !timestamp || !nonce || nonce.length > 100) {
+    return "invalid_signature";
+  }
+
+  const expected = Buffer.from(signWebhook(timestamp, nonce, body));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return "invalid_signature";
+  }
+
+  // Timestamp in seconds since the epoch
+  const sentAt = Number(timestamp);
+  if (
+    !Number.isFinite(sentAt) ||
+    Math.abs(Date.now() / 1000 - sentAt) >
+      COVERAGE_BOT_WEBHOOK_TOLERANCE_SECONDS
+  ) {
+    return "stale";
+  }
+
+  // Older nonces can't be replayed anymore, their timestamp is stale
+  const now = new Date();
+  await pool.execute(`DELETE FROM webhook_nonces WHERE received_at < ?`, [
+    formatMySQLDateTime(
+      new Date(
+        now.getTime() - 2 * COVERAGE_BOT_WEBHOOK_TOLERANCE_SECONDS * 1000,
+      ),
+    ),
+  ]);
+  try {
+    await pool.execute(
+      `INSERT INTO webhook_nonces (nonce, received_at) VALUES (?, ?)`,
+      [nonce, formatMySQLDateTime(now)],
+    );
+  } catch (error: any) {
+    if (error.code === "ER_DUP_ENTRY") {
+      return "replayed";
+    }
+    throw error;
+  }
+  return "ok";
+}
+
+/**
+ * Verifies a coverage bot callback and passes it to `handle`. If handling
+ * throws, the nonce is forgotten again so the bot's retry of the same
+ * signed request is accepted instead of rejected as a replay.
+ */
+export async function receiveWebhook<T>(
+  request: {
+    signature: string | undefined;
+    timestamp: string | undefined;
+    nonce: string | undefined;
+    body: string;
+  },
+  handle: () => Promise<T>,
+): Promise<
+  | { status: Exclude<WebhookVerification, "ok"> }
+  | { status: "handled"; result: T }
+> {
+  const verification = await verifyWebhook(
+    request.signature,
+    request.timestamp,
+    request.nonce,
+    request.body,
+  );
+  if (verification !== "ok") {
+    return { status: verification };
+  }
+
+  try {
+    return { status: "handled", result: await handle() };
+  } catch (error) {
+    await pool.execute(`DELETE FROM webhook_nonces WHERE nonce = ?`, [
+      request.nonce,
+    ]);
+    throw error;
+  }
+}
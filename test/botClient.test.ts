@@ -0,0 +1,108 @@
+import { describe, expect, test } from "bun:test";
+import { BotResponseError, parseBotTicket } from "../src/operators/botClient";
+import { fiberstarAdapter } from "../src/operators/fiberstar";
+
+describe("parseBotTicket", () => {
+  test("reads an answered ticket", () => {
+    expect(
+      parseBotTicket({
+        id: 42,
+        operator: "fiberstar",
+        is_covered: 1,
+        homepassed_id: "HP-42",
+        operator_remarks: "OK",
+        ticket_closed_date: "2025-05-01 10:00:00",
+      }),
+    ).toEqual({
+      id: "42",
+      operator: "fiberstar",
+      isCovered: true,
+      homepassedId: "HP-42",
+      operatorRemarks: "OK",
+      ticketClosedDate: "2025-05-01 10:00:00",
+    });
+  });
+
+  test("reads a ticket the operator has not answered", () => {
+    expect(parseBotTicket({ id: "7", is_covered: null })).toEqual({
+      id: "7",
+      operator: null,
+      isCovered: null,
+      homepassedId: null,
+      operatorRemarks: null,
+      ticketClosedDate: null,
+    });
+  });
+
+  test("accepts the coverage flag as a number, string or boolean", () => {
+    for (const value of [1, "1", true]) {
+      expect(parseBotTicket({ id: 1, is_covered: value }).isCovered).toBe(true);
+    }
+    for (const value of [0, "0", false]) {
+      expect(parseBotTicket({ id: 1, is_covered: value }).isCovered).toBe(
+        false,
+      );
+    }
+  });
+
+  test("treats empty strings as missing", () => {
+    expect(parseBotTicket({ id: 1, homepassed_id: "" }).homepassedId).toBe(
+      null,
+    );
+  });
+
+  test("rejects malformed tickets", () => {
+    for (const content of [
+      null,
+      "ticket",
+      [{ id: 1 }],
+      {},
+      { id: "" },
+      { id: 1, is_covered: "yes" },
+      { id: 1, homepassed_id: { value: "HP-1" } },
+    ]) {
+      expect(() => parseBotTicket(content)).toThrow(BotResponseError);
+    }
+  });
+});
+
+describe("fiberstar callbacks", () => {
+  test("turn a final answer into a finished result", () => {
+    expect(
+      fiberstarAdapter.parseCallback!({
+        data: { id: 5, operator: "fiberstar", is_covered: 0 },
+      }),
+    ).toEqual({
+      externalId: "5",
+      result: {
+        isCovered: false,
+        homepassedId: null,
+        operatorRemarks: null,
+        ticketClosedDate: null,
+        finished: true,
+      },
+    });
+  });
+
+  test("keep a covered ticket open until the homepass is closed", () => {
+    const callback = fiberstarAdapter.parseCallback!({
+      data: { id: 5, operator: "fiberstar", is_covered: 1 },
+    });
+    expect(callback?.result?.finished).toBe(false);
+  });
+
+  test("have no result while the operator has not answered", () => {
+    expect(
+      fiberstarAdapter.parseCallback!({ data: { id: 5, is_covered: null } }),
+    ).toEqual({ externalId: "5", result: null });
+  });
+
+  test("ignore other operators' and malformed tickets", () => {
+    expect(
+      fiberstarAdapter.parseCallback!({
+        data: { id: 5, operator: "iconnet", is_covered: 1 },
+      }),
+    ).toBeNull();
+    expect(fiberstarAdapter.parseCallback!({ data: {} })).toBeNull();
+  });
+});
@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { updateOperator } from "../src/operators/catalog";
+import { fakePool } from "./fakePool";
+
+// The operators row of FS
+let row: Record<string, unknown>;
+let restorePool: () => void;
+
+beforeEach(() => {
+  row = {
+    code: "FS",
+    name: "Fiberstar",
+    branches: '["T01","T02"]',
+    spreadsheet_target: "fs",
+    automated_check: 1,
+    active: 1,
+  };
+  restorePool = fakePool((sql, params) => {
+    if (sql === "SELECT * FROM operators WHERE code = ?") {
+      return params[0] === row.code ? [{ ...row }] : [];
+    }
+    if (sql.startsWith("UPDATE operators SET name = ?")) {
+      const [name, branches, spreadsheetTarget, automatedCheck] = params;
+      Object.assign(row, {
+        name,
+        branches,
+        spreadsheet_target: spreadsheetTarget,
+        automated_check: automatedCheck,
+      });
+      return { affectedRows: 1 };
+    }
+    throw new Error(`Unexpected statement: ${sql}`);
+  });
+});
+
+afterEach(() => restorePool());
+
+describe("updateOperator", () => {
+  test("keeps the fields left out of the change", async () => {
+    expect(await updateOperator("FS", { name: "Fiberstar ID" })).toEqual({
+      status: "changed",
+      operator: {
+        code: "FS",
+        name: "Fiberstar ID",
+        branches: ["T01", "T02"],
+        spreadsheetTarget: "fs",
+        automatedCheck: true,
+        active: true,
+      },
+    });
+    expect(row).toMatchObject({
+      branches: '["T01","T02"]',
+      spreadsheet_target: "fs",
+      automated_check: 1,
+    });
+  });
+
+  test("clears the spreadsheet when asked to", async () => {
+    await updateOperator("FS", {
+      spreadsheetTarget: null,
+      automatedCheck: false,
+    });
+    expect(row).toMatchObject({
+      name: "Fiberstar",
+      spreadsheet_target: null,
+      automated_check: 0,
+    });
+  });
+
+  test("reports an unknown operator", async () => {
+    expect(await updateOperator("XL", { name: "XL Home" })).toEqual({
+      status: "not_found",
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, test } from "bun:test";
+import { csvCell, parseCsv } from "../src/csv";
+
+describe("csvCell", () => {
+  test("leaves plain values unquoted", () => {
+    expect(csvCell("Medan")).toBe("Medan");
+    expect(csvCell(0.25)).toBe("0.25");
+    expect(csvCell(null)).toBe("");
+  });
+
+  test("quotes delimiters, quotes and line breaks", () => {
+    expect(csvCell("20111, Medan")).toBe('"20111, Medan"');
+    expect(csvCell('Rumah "Bu Ani"')).toBe('"Rumah ""Bu Ani"""');
+    expect(csvCell("line\nbreak")).toBe('"line\nbreak"');
+  });
+
+  test.each(['=HYPERLINK("x")', "+62 812", "-1+2", "@SUM(A1)"])(
+    "keeps %p from running as a formula",
+    (value) => {
+      expect(parseCsv(`c\r\n${csvCell(value)}\r\n`)[0]!.values.c).toBe(
+        `'${value}`,
+      );
+    },
+  );
+
+  test("leaves negative numbers alone", () => {
+    expect(csvCell(-0.25)).toBe("-0.25");
+  });
+});
+
+describe("parseCsv", () => {
+  test("keys records by the lowercased header", () => {
+    expect(parseCsv("Name,Employee ID\r\nBudi,0201005\r\n")).toEqual([
+      { line: 2, values: { name: "Budi", "employee id": "0201005" } },
+    ]);
+  });
+
+  test("reads quoted cells with delimiters, quotes and line breaks", () => {
+    const records = parseCsv(
+      'name,remarks\n"Ani, S.","said ""hi""\nthen left"\nBudi,ok',
+    );
+    expect(records).toEqual([
+      { line: 2, values: { name: "Ani, S.", remarks: 'said "hi"\nthen left' } },
+      { line: 4, values: { name: "Budi", remarks: "ok" } },
+    ]);
+  });
+
+  test("skips blank lines and a byte order mark", () => {
+    expect(parseCsv("\uFEFFname\n\nAni\n ,\nBudi\n")).toEqual([
+      { line: 3, values: { name: "Ani" } },
+      { line: 5, values: { name: "Budi" } },
+    ]);
+  });
+
+  test("fills missing cells with empty strings", () => {
+    expect(parseCsv("a,b,c\n1")).toEqual([
+      { line: 2, values: { a: "1", b: "", c: "" } },
+    ]);
+  });
+
+  test("returns nothing without a header", () => {
+    expect(parseCsv("")).toEqual([]);
+  });
+
+  test("round-trips cells written by csvCell", () => {
+    const cells = ["plain", "with, comma", 'with "quotes"', "multi\r\nline"];
+    const text = `${cells.map((_, i) => `c${i}`).join(",")}\r\n${cells.map(csvCell).join(",")}\r\n`;
+    expect(Object.values(parseCsv(text)[0]!.values)).toEqual(cells);
+  });
+});
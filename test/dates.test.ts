@@ -0,0 +1,116 @@
+import { describe, expect, test } from "bun:test";
+import {
+  formatInTimeZone,
+  formatMySQLDateTime,
+  parseDateRange,
+  parseTimeZone,
+  toZonedISOString,
+} from "../src/dates";
+
+describe("formatMySQLDateTime", () => {
+  test("drops the milliseconds and zone", () => {
+    expect(formatMySQLDateTime(new Date("2025-04-06T16:52:28.435Z"))).toBe(
+      "2025-04-06 16:52:28",
+    );
+  });
+});
+
+describe("parseTimeZone", () => {
+  test("falls back to the default zone", () => {
+    expect(parseTimeZone(undefined)).toBe("Asia/Jakarta");
+    expect(parseTimeZone("")).toBe("Asia/Jakarta");
+  });
+
+  test("accepts IANA zones and rejects unknown ones", () => {
+    expect(parseTimeZone("Asia/Makassar")).toBe("Asia/Makassar");
+    expect(parseTimeZone("Mars/Olympus")).toBeNull();
+  });
+});
+
+describe("formatInTimeZone", () => {
+  test("gives the wall-clock time of the zone", () => {
+    const date = new Date("2025-04-06T16:52:28Z");
+    expect(formatInTimeZone(date, "Asia/Jakarta")).toBe("2025-04-06 23:52:28");
+    expect(formatInTimeZone(date, "Asia/Makassar")).toBe("2025-04-07 00:52:28");
+    expect(formatInTimeZone(date, "UTC")).toBe("2025-04-06 16:52:28");
+  });
+
+  test("follows daylight saving time", () => {
+    expect(
+      formatInTimeZone(new Date("2025-01-15T12:00:00Z"), "America/New_York"),
+    ).toBe("2025-01-15 07:00:00");
+    expect(
+      formatInTimeZone(new Date("2025-07-15T12:00:00Z"), "America/New_York"),
+    ).toBe("2025-07-15 08:00:00");
+  });
+});
+
+describe("toZonedISOString", () => {
+  test("writes the offset of the zone", () => {
+    expect(
+      toZonedISOString(new Date("2025-04-06T16:52:28.435Z"), "Asia/Jakarta"),
+    ).toBe("2025-04-06T23:52:28.435+07:00");
+    expect(
+      toZonedISOString(new Date("2025-01-15T12:00:00Z"), "America/New_York"),
+    ).toBe("2025-01-15T07:00:00.000-05:00");
+  });
+
+  test("keeps the Z form for UTC", () => {
+    expect(toZonedISOString(new Date("2025-04-06T16:52:28Z"), "UTC")).toBe(
+      "2025-04-06T16:52:28.000Z",
+    );
+  });
+});
+
+describe("parseDateRange", () => {
+  test("reads dates as days of the zone, including the whole `to` day", () => {
+    expect(parseDateRange("2025-05-01", "2025-05-31", "Asia/Jakarta")).toEqual({
+      from: new Date("2025-04-30T17:00:00Z"),
+      to: new Date("2025-05-31T17:00:00Z"),
+    });
+  });
+
+  test("reads date-times without an offset as wall-clock times", () => {
+    expect(
+      parseDateRange("2025-05-01T08:30", undefined, "Asia/Makassar"),
+    ).toEqual({ from: new Date("2025-05-01T00:30:00Z") });
+  });
+
+  test("keeps an explicit offset", () => {
+    expect(
+      parseDateRange(
+        "2025-05-01T08:30:00Z",
+        "2025-05-01T10:00:00+07:00",
+        "Asia/Makassar",
+      ),
+    ).toEqual({
+      from: new Date("2025-05-01T08:30:00Z"),
+      to: new Date("2025-05-01T03:00:00Z"),
+    });
+  });
+
+  test("allows either bound to be missing", () => {
+    expect(parseDateRange(undefined, undefined, "UTC")).toEqual({});
+  });
+
+  test("rejects values that are not calendar dates or times", () => {
+    for (const value of [
+      "2025-02-30",
+      "2025-02-29",
+      "2025-13-01",
+      "2025-05-01T24:00",
+      "2025-05-01T10:60",
+      "05/01/2025",
+      "yesterday",
+    ]) {
+      expect(parseDateRange(value, undefined, "UTC")).toBeNull();
+      expect(parseDateRange(undefined, value, "UTC")).toBeNull();
+    }
+  });
+
+  test("accepts leap days", () => {
+    expect(parseDateRange("2024-02-29", undefined, "UTC")).toEqual({
+      from: new Date("2024-02-29T00:00:00Z"),
+    });
+  });
+});
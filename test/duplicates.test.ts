@@ -0,0 +1,233 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { pool } from "../src/db";
+import { findSuspectedDuplicates, resolveDuplicate } from "../src/duplicates";
+import * as submissions from "../src/submissions";
+import { fakePool } from "./fakePool";
+
+type Suspicion = {
+  id: number;
+  submission_id: string;
+  duplicate_of_id: string;
+  status: "suspected" | "merged" | "dismissed";
+};
+
+// The submission_duplicates table, the submissions' statuses and merges
+let suspicions: Suspicion[];
+let statuses: Map<string, string>;
+let mergedInto: Map<string, string>;
+// Statements sent, with their parameters
+let statements: [string, any[]][];
+let restore: (() => void)[];
+let queue: ReturnType<typeof spyOn>;
+
+beforeEach(() => {
+  suspicions = [];
+  statuses = new Map([
+    ["sub-1", "received"],
+    ["sub-2", "covered"],
+    ["sub-3", "received"],
+  ]);
+  mergedInto = new Map();
+  statements = [];
+
+  restore = [
+    fakePool((sql, params) => {
+      statements.push([sql, params]);
+      if (sql.startsWith("SELECT s.id, s.timestamp")) {
+        return [
+          {
+            id: "sub-2",
+            timestamp: new Date("2026-03-01T08:00:00Z"),
+            salesmanName: "Budi",
+            customerName: "Pak Andi",
+            distance: 12.4,
+            sameHomeNo: 1,
+          },
+          {
+            id: "sub-3",
+            timestamp: new Date("2026-03-01T09:00:00Z"),
+            salesmanName: "Sari",
+            customerName: "Bu Rina",
+            distance: null,
+            sameHomeNo: 0,
+          },
+        ];
+      }
+      if (sql.startsWith("SELECT submission_id, duplicate_of_id, status")) {
+        return suspicions
+          .filter((suspicion) => suspicion.id === params[0])
+          .map((suspicion) => ({ ...suspicion }));
+      }
+      const resolve = sql.match(
+        /^UPDATE submission_duplicates SET status = '(\w+)', resolved_at = \? WHERE (id|submission_id) = \?/,
+      );
+      if (resolve) {
+        for (const suspicion of suspicions) {
+          if (
+            resolve[2] === "id"
+              ? suspicion.id === params[1]
+              : suspicion.submission_id === params[1] &&
+                suspicion.status === "suspected"
+          ) {
+            suspicion.status = resolve[1] as Suspicion["status"];
+          }
+        }
+        return { affectedRows: 1 };
+      }
+      if (sql.startsWith("SELECT id FROM submission_duplicates")) {
+        return suspicions.filter(
+          (suspicion) =>
+            suspicion.submission_id === params[0] &&
+            suspicion.status === "suspected",
+        );
+      }
+      if (sql.startsWith("UPDATE submissions SET duplicateOfId = ?")) {
+        mergedInto.set(params[1], params[0]);
+        return { affectedRows: 1 };
+      }
+      if (sql.startsWith("SELECT operators FROM submissions")) {
+        return [{ operators: '["FS"]' }];
+      }
+      if (sql.startsWith("SELECT status FROM submissions")) {
+        return [{ status: statuses.get(params[0]) }];
+      }
+      if (sql.startsWith("UPDATE submissions SET status = ?")) {
+        statuses.set(params[1], params[0]);
+        return { affectedRows: 1 };
+      }
+      if (sql.startsWith("INSERT INTO submission_transitions")) {
+        return { affectedRows: 1 };
+      }
+      throw new Error(`Unexpected statement: ${sql}`);
+    }),
+  ];
+
+  queue = spyOn(submissions, "queueSubmissionSideEffects").mockResolvedValue();
+  restore.push(() => queue.mockRestore());
+});
+
+afterEach(() => restore.forEach((undo) => undo()));
+
+function suspect(submissionId: string, duplicateOfId: string) {
+  suspicions.push({
+    id: suspicions.length + 1,
+    submission_id: submissionId,
+    duplicate_of_id: duplicateOfId,
+    status: "suspected",
+  });
+}
+
+describe("findSuspectedDuplicates", () => {
+  const submission = {
+    id: "sub-1",
+    coordinates: "3.5952, 98.6722",
+    customerHomeNo: "No. 12-A",
+    village: "20111, Petisah Tengah, Medan Petisah, Medan, Sumatera Utara",
+  };
+
+  test("looks for the same house number and nearby houses", async () => {
+    const connection = await pool.getConnection();
+    const duplicates = await findSuspectedDuplicates(
+      connection,
+      submission,
+      new Date("2026-03-02T08:00:00Z"),
+    );
+
+    expect(duplicates).toEqual([
+      {
+        submissionId: "sub-2",
+        timestamp: "2026-03-01T08:00:00.000Z",
+        salesmanName: "Budi",
+        customerName: "Pak Andi",
+        distanceMeters: 12,
+        sameHomeNo: true,
+      },
+      {
+        submissionId: "sub-3",
+        timestamp: "2026-03-01T09:00:00.000Z",
+        salesmanName: "Sari",
+        customerName: "Bu Rina",
+        distanceMeters: null,
+        sameHomeNo: false,
+      },
+    ]);
+
+    const [, params] = statements[0]!;
+    expect(params.slice(0, 4)).toEqual([
+      98.6722,
+      3.5952,
+      submission.village,
+      "no12a",
+    ]);
+    // Within the 90 day window, excluding the submission itself
+    expect(params.slice(-5)).toEqual([
+      submission.village,
+      "2025-12-02 08:00:00",
+      "sub-1",
+      "2025-12-02 08:00:00",
+      30,
+    ]);
+  });
+
+  test("skips submissions without usable coordinates", async () => {
+    const connection = await pool.getConnection();
+    expect(
+      await findSuspectedDuplicates(
+        connection,
+        { ...submission, coordinates: "95.0, 98.6722" },
+        new Date(),
+      ),
+    ).toEqual([]);
+    expect(statements).toEqual([]);
+  });
+});
+
+describe("resolveDuplicate", () => {
+  test("merges a duplicate into the earlier submission", async () => {
+    suspect("sub-1", "sub-2");
+    suspect("sub-1", "sub-3");
+
+    expect(await resolveDuplicate(1, "merge")).toEqual({
+      status: "resolved",
+      released: false,
+    });
+    expect(suspicions.map((suspicion) => suspicion.status)).toEqual([
+      "merged",
+      "dismissed",
+    ]);
+    expect(mergedInto.get("sub-1")).toBe("sub-2");
+    expect(statuses.get("sub-1")).toBe("cancelled");
+    expect(queue).not.toHaveBeenCalled();
+  });
+
+  test("releases a submission once its last suspicion is dismissed", async () => {
+    suspect("sub-1", "sub-2");
+    suspect("sub-1", "sub-3");
+
+    expect(await resolveDuplicate(1, "dismiss")).toEqual({
+      status: "resolved",
+      released: false,
+    });
+    expect(queue).not.toHaveBeenCalled();
+
+    expect(await resolveDuplicate(2, "dismiss")).toEqual({
+      status: "resolved",
+      released: true,
+    });
+    expect(queue).toHaveBeenCalledWith(expect.anything(), "sub-1", ["FS"]);
+    expect(statuses.get("sub-1")).toBe("received");
+  });
+
+  test("resolves a suspicion only once", async () => {
+    suspect("sub-1", "sub-2");
+    await resolveDuplicate(1, "dismiss");
+
+    expect(await resolveDuplicate(1, "merge")).toEqual({
+      status: "already_resolved",
+    });
+    expect(await resolveDuplicate(2, "merge")).toEqual({
+      status: "not_found",
+    });
+    expect(mergedInto.size).toBe(0);
+  });
+});
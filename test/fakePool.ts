@@ -0,0 +1,48 @@
+import { spyOn } from "bun:test";
+import { pool } from "../src/db";
+
+/**
+ * Answers a statement in place of MySQL: the rows of a SELECT or the
+ * ResultSetHeader of a write. Throwing simulates a MySQL error.
+ */
+export type FakeStatement = (sql: string, params: any[]) => unknown;
+
+/**
+ * MySQL error as mysql2 raises it, e.g. for a duplicate key
+ */
+export function mysqlError(code: string): Error {
+  return Object.assign(new Error(code), { code });
+}
+
+/**
+ * Routes the statements the app sends through `pool`, and through the
+ * connections it takes from it, to `answer`. SQL is passed with its
+ * whitespace collapsed. Returns a function restoring the real pool.
+ */
+export function fakePool(answer: FakeStatement): () => void {
+  const run = async (sql: unknown, params: any[] = []) => [
+    await answer(String(sql).replace(/\s+/g, " ").trim(), params),
+    [],
+  ];
+  const connection = {
+    execute: run,
+    query: run,
+    beginTransaction: async () => {},
+    commit: async () => {},
+    rollback: async () => {},
+    release: () => {},
+  };
+
+  const spies = [
+    spyOn(pool, "execute").mockImplementation(run as any),
+    spyOn(pool, "query").mockImplementation(run as any),
+    spyOn(pool, "getConnection").mockImplementation(
+      async () => connection as any,
+    ),
+  ];
+  return () => {
+    for (const spy of spies) {
+      spy.mockRestore();
+    }
+  };
+}
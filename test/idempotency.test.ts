@@ -0,0 +1,185 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { formatMySQLDateTime } from "../src/dates";
+import { pool } from "../src/db";
+import {
+  completeIdempotencyKey,
+  deleteExpiredIdempotencyKeys,
+  isValidIdempotencyKey,
+  releaseIdempotencyKey,
+  reserveIdempotencyKey,
+} from "../src/idempotency";
+import { fakePool, mysqlError } from "./fakePool";
+
+type KeyRow = {
+  request_hash: string;
+  submission_id: string;
+  submitted_at: string;
+  status: "in_progress" | "completed";
+  created_at: string;
+};
+
+// The idempotency_keys table
+let keys: Map<string, KeyRow>;
+let restorePool: () => void;
+
+function minutesAgo(minutes: number) {
+  return formatMySQLDateTime(new Date(Date.now() - minutes * 60 * 1000));
+}
+
+beforeEach(() => {
+  keys = new Map();
+  restorePool = fakePool((sql, params) => {
+    if (sql.startsWith("INSERT INTO idempotency_keys")) {
+      const [key, hash, submissionId, submittedAt, createdAt] = params;
+      if (keys.has(key)) {
+        throw mysqlError("ER_DUP_ENTRY");
+      }
+      keys.set(key, {
+        request_hash: hash,
+        submission_id: submissionId,
+        submitted_at: submittedAt,
+        status: "in_progress",
+        created_at: createdAt,
+      });
+      return { affectedRows: 1 };
+    }
+    if (sql.startsWith("SELECT request_hash")) {
+      const row = keys.get(params[0]);
+      return row ? [{ ...row }] : [];
+    }
+    if (sql.startsWith("UPDATE idempotency_keys SET submission_id = ?")) {
+      const [submissionId, submittedAt, createdAt, key, staleBefore] = params;
+      const row = keys.get(key);
+      if (
+        !row ||
+        row.status !== "in_progress" ||
+        !(row.created_at < staleBefore)
+      ) {
+        return { affectedRows: 0 };
+      }
+      Object.assign(row, {
+        submission_id: submissionId,
+        submitted_at: submittedAt,
+        created_at: createdAt,
+      });
+      return { affectedRows: 1 };
+    }
+    if (sql.startsWith("UPDATE idempotency_keys SET status = 'completed'")) {
+      keys.get(params[0])!.status = "completed";
+      return { affectedRows: 1 };
+    }
+    if (sql.startsWith("DELETE FROM idempotency_keys WHERE idempotency_key")) {
+      const deleted =
+        keys.get(params[0])?.status === "in_progress" && keys.delete(params[0]);
+      return { affectedRows: Number(deleted) };
+    }
+    if (sql.startsWith("DELETE FROM idempotency_keys WHERE created_at < ?")) {
+      let affectedRows = 0;
+      for (const [key, row] of keys) {
+        if (row.created_at < params[0]) {
+          keys.delete(key);
+          affectedRows++;
+        }
+      }
+      return { affectedRows };
+    }
+    throw new Error(`Unexpected statement: ${sql}`);
+  });
+});
+
+afterEach(() => restorePool());
+
+const KEY = "retry-key-1";
+const TIMESTAMP = "2026-03-02T08:00:00.000Z";
+
+describe("reserveIdempotencyKey", () => {
+  test("reserves a new key", async () => {
+    expect(
+      await reserveIdempotencyKey(KEY, "hash-a", "sub-1", TIMESTAMP),
+    ).toEqual({ status: "reserved" });
+    expect(keys.get(KEY)).toMatchObject({
+      submission_id: "sub-1",
+      status: "in_progress",
+    });
+  });
+
+  test("replays the first submission for a retry", async () => {
+    await reserveIdempotencyKey(KEY, "hash-a", "sub-1", TIMESTAMP);
+    expect(
+      await reserveIdempotencyKey(KEY, "hash-a", "sub-2", TIMESTAMP),
+    ).toEqual({
+      status: "replay",
+      submissionId: "sub-1",
+      timestamp: TIMESTAMP,
+      completed: false,
+    });
+
+    const connection = await pool.getConnection();
+    await completeIdempotencyKey(connection, KEY);
+    expect(
+      await reserveIdempotencyKey(KEY, "hash-a", "sub-3", TIMESTAMP),
+    ).toMatchObject({
+      status: "replay",
+      submissionId: "sub-1",
+      completed: true,
+    });
+  });
+
+  test("refuses a key reused for a different submission", async () => {
+    await reserveIdempotencyKey(KEY, "hash-a", "sub-1", TIMESTAMP);
+    expect(
+      await reserveIdempotencyKey(KEY, "hash-b", "sub-2", TIMESTAMP),
+    ).toEqual({ status: "mismatch" });
+  });
+
+  test("takes over a key left in progress by a request that died", async () => {
+    await reserveIdempotencyKey(KEY, "hash-a", "sub-1", TIMESTAMP);
+    keys.get(KEY)!.created_at = minutesAgo(11);
+
+    expect(
+      await reserveIdempotencyKey(KEY, "hash-a", "sub-2", TIMESTAMP),
+    ).toEqual({ status: "reserved" });
+    expect(keys.get(KEY)!.submission_id).toBe("sub-2");
+  });
+
+  test("never takes over a completed key", async () => {
+    await reserveIdempotencyKey(KEY, "hash-a", "sub-1", TIMESTAMP);
+    Object.assign(keys.get(KEY)!, {
+      status: "completed",
+      created_at: minutesAgo(60),
+    });
+
+    expect(
+      await reserveIdempotencyKey(KEY, "hash-a", "sub-2", TIMESTAMP),
+    ).toMatchObject({ status: "replay", submissionId: "sub-1" });
+  });
+
+  test("lets the retry through once a failed request released the key", async () => {
+    await reserveIdempotencyKey(KEY, "hash-a", "sub-1", TIMESTAMP);
+    await releaseIdempotencyKey(KEY);
+
+    expect(
+      await reserveIdempotencyKey(KEY, "hash-a", "sub-2", TIMESTAMP),
+    ).toEqual({ status: "reserved" });
+  });
+});
+
+describe("deleteExpiredIdempotencyKeys", () => {
+  test("deletes keys older than the TTL", async () => {
+    await reserveIdempotencyKey("old-key-1", "hash-a", "sub-1", TIMESTAMP);
+    await reserveIdempotencyKey(KEY, "hash-b", "sub-2", TIMESTAMP);
+    keys.get("old-key-1")!.created_at = minutesAgo(73 * 60);
+
+    expect(await deleteExpiredIdempotencyKeys()).toBe(1);
+    expect([...keys.keys()]).toEqual([KEY]);
+  });
+});
+
+describe("isValidIdempotencyKey", () => {
+  test("accepts 8 to 100 URL-safe characters", () => {
+    expect(isValidIdempotencyKey("a1b2-c3d4")).toBe(true);
+    expect(isValidIdempotencyKey("short")).toBe(false);
+    expect(isValidIdempotencyKey("has spaces in it")).toBe(false);
+    expect(isValidIdempotencyKey("x".repeat(101))).toBe(false);
+  });
+});
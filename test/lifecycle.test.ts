@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import {
+  canTransition,
+  InvalidTransitionError,
+  transitionSubmission,
+  type SubmissionStatus,
+} from "../src/lifecycle";
+import { fakePool } from "./fakePool";
+
+describe("canTransition", () => {
+  test.each<[SubmissionStatus, SubmissionStatus]>([
+    ["received", "dispatched"],
+    ["dispatched", "awaiting_operator"],
+    ["awaiting_operator", "covered"],
+    ["covered", "not_covered"],
+    ["covered", "received"],
+    ["failed", "dispatched"],
+    ["not_covered", "cancelled"],
+  ])("allows %s to %s", (from, to) => {
+    expect(canTransition(from, to)).toBe(true);
+  });
+
+  test.each<[SubmissionStatus, SubmissionStatus]>([
+    ["cancelled", "received"],
+    ["cancelled", "covered"],
+    ["covered", "failed"],
+    ["covered", "dispatched"],
+    ["failed", "covered"],
+    ["awaiting_operator", "dispatched"],
+  ])("forbids %s to %s", (from, to) => {
+    expect(canTransition(from, to)).toBe(false);
+  });
+});
+
+describe("transitionSubmission", () => {
+  // The submission's status and the transitions logged for it
+  let status: SubmissionStatus;
+  let logged: unknown[][];
+  let restorePool: () => void;
+
+  beforeEach(() => {
+    status = "dispatched";
+    logged = [];
+    restorePool = fakePool((sql, params) => {
+      if (sql.startsWith("SELECT status FROM submissions")) {
+        return params[0] === "sub-1" ? [{ status }] : [];
+      }
+      if (sql.startsWith("UPDATE submissions SET status = ?")) {
+        status = params[0];
+        return { affectedRows: 1 };
+      }
+      if (sql.startsWith("INSERT INTO submission_transitions")) {
+        logged.push(params.slice(0, 4));
+        return { affectedRows: 1 };
+      }
+      throw new Error(`Unexpected statement: ${sql}`);
+    });
+  });
+
+  afterEach(() => restorePool());
+
+  test("moves the submission and logs the reason", async () => {
+    expect(
+      await transitionSubmission("sub-1", "covered", "Operator answered"),
+    ).toBe(true);
+    expect(status).toBe("covered");
+    expect(logged).toEqual([
+      ["sub-1", "dispatched", "covered", "Operator answered"],
+    ]);
+  });
+
+  test("leaves a submission already in that status alone", async () => {
+    expect(await transitionSubmission("sub-1", "dispatched", "Again")).toBe(
+      false,
+    );
+    expect(logged).toEqual([]);
+  });
+
+  test("refuses to move a cancelled submission", async () => {
+    status = "cancelled";
+    const transition = transitionSubmission("sub-1", "received", "Edited");
+    await expect(transition).rejects.toBeInstanceOf(InvalidTransitionError);
+    await expect(transition).rejects.toThrow(
+      "Cannot move a submission from cancelled to received",
+    );
+    expect(status).toBe("cancelled");
+    expect(logged).toEqual([]);
+  });
+
+  test("fails for an unknown submission", async () => {
+    await expect(
+      transitionSubmission("sub-2", "covered", "Operator answered"),
+    ).rejects.toThrow("Submission sub-2 not found");
+  });
+});
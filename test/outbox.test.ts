@@ -0,0 +1,255 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  setSystemTime,
+  spyOn,
+  test,
+} from "bun:test";
+import * as coverage from "../src/coverage";
+import { formatMySQLDateTime } from "../src/dates";
+import { deliverDueOutboxEvents, retryOutboxEvent } from "../src/outbox";
+import * as spreadsheets from "../src/spreadsheets";
+import { fakePool } from "./fakePool";
+
+type Event = {
+  id: number;
+  submission_id: string;
+  kind: string;
+  payload: string;
+  status: "pending" | "delivered" | "dead";
+  attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+};
+
+// The outbox table and the statuses of the submissions its events belong to
+let outbox: Event[];
+let submissions: Map<string, string>;
+let restore: (() => void)[];
+let dispatch: ReturnType<typeof spyOn>;
+
+function addEvent(fields: Partial<Event>): Event {
+  const event: Event = {
+    id: outbox.length + 1,
+    submission_id: "sub-1",
+    kind: "coverage.dispatch",
+    payload: JSON.stringify({ operator: "FS" }),
+    status: "pending",
+    attempts: 0,
+    next_attempt_at: formatMySQLDateTime(new Date(Date.now() - 1000)),
+    last_error: null,
+    ...fields,
+  };
+  outbox.push(event);
+  return event;
+}
+
+function event(id: number) {
+  return outbox.find((event) => event.id === id)!;
+}
+
+// Seconds from now until the event is due again
+function secondsUntilDue(event: Event) {
+  const due = new Date(`${event.next_attempt_at.replace(" ", "T")}Z`);
+  return Math.round((due.getTime() - Date.now()) / 1000);
+}
+
+beforeEach(() => {
+  outbox = [];
+  submissions = new Map([["sub-1", "received"]]);
+
+  restore = [
+    fakePool((sql, params) => {
+      if (sql.startsWith("SELECT id, submission_id, kind, payload, attempts")) {
+        const [now, ...rest] = params;
+        const limit = rest.pop();
+        const submissionId = rest[0];
+        return outbox
+          .filter(
+            (event) =>
+              event.status === "pending" &&
+              event.next_attempt_at <= now &&
+              (!submissionId || event.submission_id === submissionId),
+          )
+          .slice(0, limit)
+          .map((event) => ({ ...event }));
+      }
+      if (sql.startsWith("UPDATE outbox SET attempts = attempts + 1")) {
+        for (const id of params[1]) {
+          event(id).attempts++;
+          event(id).next_attempt_at = params[0];
+        }
+        return { affectedRows: params[1].length };
+      }
+      if (sql.startsWith("UPDATE outbox SET status = 'delivered'")) {
+        Object.assign(event(params[1]), {
+          status: "delivered",
+          last_error: null,
+        });
+        return { affectedRows: 1 };
+      }
+      if (sql.startsWith("UPDATE outbox SET status = 'dead'")) {
+        Object.assign(event(params[1]), {
+          status: "dead",
+          last_error: params[0],
+        });
+        return { affectedRows: 1 };
+      }
+      if (sql.startsWith("UPDATE outbox SET last_error = ?")) {
+        Object.assign(event(params[2]), {
+          last_error: params[0],
+          next_attempt_at: params[1],
+        });
+        return { affectedRows: 1 };
+      }
+      if (sql.startsWith("UPDATE outbox SET status = 'pending'")) {
+        const dead = outbox.find(
+          (event) => event.id === params[1] && event.status === "dead",
+        );
+        if (!dead) {
+          return { affectedRows: 0 };
+        }
+        Object.assign(dead, {
+          status: "pending",
+          attempts: 0,
+          next_attempt_at: params[0],
+        });
+        return { affectedRows: 1 };
+      }
+      if (sql.startsWith("SELECT o.submission_id, o.kind, s.status")) {
+        return outbox
+          .filter((event) => event.id === params[0])
+          .map((event) => ({
+            submission_id: event.submission_id,
+            kind: event.kind,
+            status: submissions.get(event.submission_id),
+          }));
+      }
+      if (sql.startsWith("SELECT status FROM submissions")) {
+        const status = submissions.get(params[0]);
+        return status ? [{ status }] : [];
+      }
+      if (sql.startsWith("UPDATE submissions SET status = ?")) {
+        submissions.set(params[1], params[0]);
+        return { affectedRows: 1 };
+      }
+      if (sql.startsWith("INSERT INTO submission_transitions")) {
+        return { affectedRows: 1 };
+      }
+      throw new Error(`Unexpected statement: ${sql}`);
+    }),
+  ];
+
+  dispatch = spyOn(coverage, "dispatchCoverageCheck").mockResolvedValue();
+  const append = spyOn(
+    spreadsheets,
+    "appendSubmissionToSpreadsheet",
+  ).mockResolvedValue();
+  const errors = spyOn(console, "error").mockImplementation(() => {});
+  restore.push(() => {
+    dispatch.mockRestore();
+    append.mockRestore();
+    errors.mockRestore();
+  });
+});
+
+afterEach(() => {
+  restore.forEach((undo) => undo());
+  setSystemTime();
+});
+
+describe("deliverDueOutboxEvents", () => {
+  test("delivers each due event once", async () => {
+    addEvent({});
+    addEvent({
+      kind: "spreadsheet.append",
+      payload: JSON.stringify({ target: "all" }),
+    });
+
+    expect(await deliverDueOutboxEvents()).toBe(2);
+    expect(outbox.map((event) => event.status)).toEqual([
+      "delivered",
+      "delivered",
+    ]);
+    expect(dispatch).toHaveBeenCalledWith("sub-1", "FS");
+    expect(spreadsheets.appendSubmissionToSpreadsheet).toHaveBeenCalledWith(
+      "sub-1",
+      "all",
+    );
+
+    expect(await deliverDueOutboxEvents()).toBe(0);
+    expect(dispatch).toHaveBeenCalledTimes(1);
+  });
+
+  test("leaves events that aren't due or belong to another submission", async () => {
+    addEvent({
+      next_attempt_at: formatMySQLDateTime(new Date(Date.now() + 60_000)),
+    });
+    addEvent({ submission_id: "sub-2" });
+
+    expect(await deliverDueOutboxEvents(50, "sub-1")).toBe(0);
+    expect(outbox.map((event) => event.status)).toEqual(["pending", "pending"]);
+  });
+
+  test("backs off exponentially after a failed attempt", async () => {
+    setSystemTime(new Date("2026-03-02T08:00:00Z"));
+    dispatch.mockRejectedValue(new Error("Bot unavailable"));
+    addEvent({});
+    addEvent({ attempts: 3 });
+
+    expect(await deliverDueOutboxEvents()).toBe(0);
+    expect(event(1)).toMatchObject({
+      status: "pending",
+      attempts: 1,
+      last_error: "Bot unavailable",
+    });
+    expect(secondsUntilDue(event(1))).toBe(30);
+    expect(event(2).attempts).toBe(4);
+    expect(secondsUntilDue(event(2))).toBe(240);
+  });
+
+  test("gives up on the last attempt and fails the submission", async () => {
+    dispatch.mockRejectedValue(new Error("Bot unavailable"));
+    addEvent({ attempts: 9 });
+
+    await deliverDueOutboxEvents();
+
+    expect(event(1)).toMatchObject({
+      status: "dead",
+      attempts: 10,
+      last_error: "Bot unavailable",
+    });
+    expect(submissions.get("sub-1")).toBe("failed");
+  });
+
+  test("leaves a cancelled submission cancelled when dispatch gives up", async () => {
+    dispatch.mockRejectedValue(new Error("Bot unavailable"));
+    submissions.set("sub-1", "cancelled");
+    addEvent({ attempts: 9 });
+
+    await deliverDueOutboxEvents();
+
+    expect(event(1).status).toBe("dead");
+    expect(submissions.get("sub-1")).toBe("cancelled");
+  });
+});
+
+describe("retryOutboxEvent", () => {
+  test("requeues a dead dispatch and reopens its submission", async () => {
+    submissions.set("sub-1", "failed");
+    addEvent({ status: "dead", attempts: 10 });
+
+    expect(await retryOutboxEvent(1)).toBe(true);
+    expect(event(1)).toMatchObject({ status: "pending", attempts: 0 });
+    expect(submissions.get("sub-1")).toBe("received");
+  });
+
+  test("ignores events that aren't dead", async () => {
+    addEvent({});
+
+    expect(await retryOutboxEvent(1)).toBe(false);
+    expect(await retryOutboxEvent(2)).toBe(false);
+  });
+});
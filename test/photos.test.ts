@@ -0,0 +1,61 @@
+import { describe, expect, test } from "bun:test";
+import { sniffMediaType, unsupportedMediaFormat } from "../src/photos";
+
+// Start of an ISO base media file with the given major brand
+function isoMedia(brand: string): Uint8Array {
+  return new Uint8Array([
+    0x00,
+    0x00,
+    0x00,
+    0x20,
+    ...new TextEncoder().encode(`ftyp${brand}`),
+    0x00,
+    0x00,
+    0x00,
+    0x00,
+  ]);
+}
+
+describe("sniffMediaType", () => {
+  test("recognizes JPEG and PNG", () => {
+    expect(sniffMediaType(new Uint8Array([0xff, 0xd8, 0xff, 0xe0]))).toBe(
+      "image/jpeg",
+    );
+    expect(
+      sniffMediaType(
+        new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]),
+      ),
+    ).toBe("image/png");
+  });
+
+  test.each(["isom", "iso2", "mp41", "mp42", "avc1", "M4V "])(
+    "accepts the %p brand as MP4",
+    (brand) => {
+      expect(sniffMediaType(isoMedia(brand))).toBe("video/mp4");
+      expect(unsupportedMediaFormat(isoMedia(brand))).toBeNull();
+    },
+  );
+
+  test.each([
+    ["heic", "HEIC photos"],
+    ["heix", "HEIC photos"],
+    ["mif1", "HEIF photos"],
+    ["qt  ", "QuickTime videos"],
+  ])("rejects the %p brand as %s", (brand, format) => {
+    expect(sniffMediaType(isoMedia(brand))).toBeNull();
+    expect(unsupportedMediaFormat(isoMedia(brand))).toBe(format);
+  });
+
+  test("rejects other ISO base media brands and unknown content", () => {
+    expect(sniffMediaType(isoMedia("3gp5"))).toBeNull();
+    expect(unsupportedMediaFormat(isoMedia("3gp5"))).toBeNull();
+    expect(sniffMediaType(new TextEncoder().encode("%PDF-1.7"))).toBeNull();
+    expect(unsupportedMediaFormat(new TextEncoder().encode("GIF89a"))).toBe(
+      null,
+    );
+  });
+
+  test("needs the whole brand", () => {
+    expect(sniffMediaType(isoMedia("is").subarray(0, 10))).toBeNull();
+  });
+});
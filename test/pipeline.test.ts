@@ -0,0 +1,233 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import type { RowDataPacket } from "mysql2/promise";
+import { checkCoverageStatusJob } from "../cron/checkCoverageStatus";
+import { formatMySQLDateTime } from "../src/dates";
+import { pool } from "../src/db";
+import type { SuspectedDuplicate } from "../src/duplicates";
+import { fakeCoverageBot, fakeSheets } from "../src/fakes";
+import { deliverDueOutboxEvents } from "../src/outbox";
+import { sheetMappings } from "../src/sheetSync/mappings";
+import type { FieldError } from "../src/validation";
+
+/**
+ * Drives a submission through the whole pipeline: the submit form, the
+ * outbox, the (fake) coverage bot, the status poll and the (fake) operator
+ * spreadsheets. Needs a migrated MySQL database of its own, named by
+ * TEST_DB_NAME, e.g.
+ *
+ *   DB_NAME=coverage_test bun run migrate
+ *   TEST_DB_NAME=coverage_test bun test
+ */
+const BRANCH = "T01";
+const SALESMAN = { name: "Pipeline Test Salesman", employeeId: "T0100001" };
+const BUILDING_TYPE = "Pipeline Test House";
+const VILLAGE = "20111, Petisah Tengah, Medan Petisah, Medan, Sumatera Utara";
+
+// What POST /api/submit-form answers
+type SubmitFormResponse =
+  | {
+      success: true;
+      submissionId: string;
+      timestamp: string;
+      status: string | null;
+      suspectedDuplicate?: boolean;
+      duplicates?: SuspectedDuplicate[];
+      replayed?: boolean;
+      processing?: boolean;
+      message?: string;
+    }
+  | { success: false; message: string; errors?: FieldError[] };
+
+let app: { fetch(request: Request): Response | Promise<Response> };
+
+async function submitForm(fields: Record<string, string | string[]>) {
+  const form = new FormData();
+  for (const [name, value] of Object.entries(fields)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      form.append(name, item);
+    }
+  }
+  const response = await app.fetch(
+    new Request("http://localhost/api/submit-form", {
+      method: "POST",
+      body: form,
+    }),
+  );
+  return {
+    status: response.status,
+    body: (await response.json()) as SubmitFormResponse,
+  };
+}
+
+// The route starts delivering right after responding, so wait for both
+async function deliverOutbox(submissionId: string) {
+  for (let attempt = 0; attempt < 50; attempt++) {
+    await deliverDueOutboxEvents(10, submissionId);
+    const [rows] = await pool.execute<RowDataPacket[]>(
+      `SELECT COUNT(*) AS pending FROM outbox
+       WHERE submission_id = ? AND status <> 'delivered'`,
+      [submissionId],
+    );
+    if (rows[0]!.pending === 0) {
+      return;
+    }
+    await Bun.sleep(100);
+  }
+  throw new Error(`Outbox events of ${submissionId} were not delivered`);
+}
+
+// The status poll only asks about checks the bot has been quiet about
+async function pollCoverageStatus(submissionId: string) {
+  await pool.execute(
+    `UPDATE coverage_checks SET last_checked_at = ? WHERE submission_id = ?`,
+    [
+      formatMySQLDateTime(new Date(Date.now() - 24 * 60 * 60 * 1000)),
+      submissionId,
+    ],
+  );
+  await checkCoverageStatusJob.run();
+}
+
+async function submissionStatus(submissionId: string) {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    `SELECT status FROM submissions WHERE id = ?`,
+    [submissionId],
+  );
+  return rows[0]?.status;
+}
+
+// The row of a submission in a fake spreadsheet, keyed by header
+function sheetRow(target: "all" | "fs", submissionId: string) {
+  const { spreadsheetId, sheetName } = sheetMappings[target];
+  const [header, ...rows] = fakeSheets.rows(spreadsheetId!, sheetName);
+  const row = rows.find((cells) => cells[0] === submissionId);
+  return row
+    ? Object.fromEntries(header!.map((name, index) => [name, row[index] ?? ""]))
+    : undefined;
+}
+
+describe.skipIf(!process.env.TEST_DB_NAME)("submission pipeline", () => {
+  beforeAll(async () => {
+    await pool.execute(
+      `INSERT INTO branches (code, name, timezone, spreadsheet_targets, active, created_at, updated_at)
+       VALUES (?, 'Pipeline Test', 'Asia/Jakarta', '["all", "fs"]', 1, UTC_TIMESTAMP(), UTC_TIMESTAMP())
+       ON DUPLICATE KEY UPDATE spreadsheet_targets = VALUES(spreadsheet_targets), active = 1`,
+      [BRANCH],
+    );
+    await pool.execute(
+      `INSERT INTO operators (code, name, branches, spreadsheet_target, automated_check, active, created_at, updated_at)
+       VALUES ('FS', 'Fiberstar', JSON_ARRAY(?), 'fs', 1, 1, UTC_TIMESTAMP(), UTC_TIMESTAMP())
+       ON DUPLICATE KEY UPDATE spreadsheet_target = 'fs', automated_check = 1, active = 1,
+         branches = IF(JSON_CONTAINS(branches, JSON_QUOTE(?)), branches, JSON_ARRAY_APPEND(branches, '$', ?))`,
+      [BRANCH, BRANCH, BRANCH],
+    );
+    await pool.execute(
+      `INSERT INTO salesman (name, employeeId, branchId, active) VALUES (?, ?, ?, 1)
+       ON DUPLICATE KEY UPDATE name = VALUES(name), branchId = VALUES(branchId), active = 1`,
+      [SALESMAN.name, SALESMAN.employeeId, BRANCH],
+    );
+    await pool.execute(`INSERT IGNORE INTO building_types (type) VALUES (?)`, [
+      BUILDING_TYPE,
+    ]);
+
+    fakeCoverageBot.reset();
+    fakeSheets.reset();
+    for (const target of ["all", "fs"] as const) {
+      const { spreadsheetId, sheetName, columns } = sheetMappings[target];
+      fakeSheets.setRows(spreadsheetId!, sheetName, [
+        columns.map((column) => column.header),
+      ]);
+    }
+
+    ({ default: app } = await import("../src/main"));
+  });
+
+  afterAll(async () => {
+    await pool.end();
+  });
+
+  test("writes a submission to the spreadsheets and follows its coverage", async () => {
+    // Somewhere in Medan, away from earlier runs' submissions
+    const latitude = (3.55 + Math.random() * 0.1).toFixed(6);
+    const longitude = (98.62 + Math.random() * 0.1).toFixed(6);
+    const homeNo = `T-${Date.now()}`;
+
+    const { status, body } = await submitForm({
+      salesmanName: SALESMAN.name,
+      salesmanEmployeeId: SALESMAN.employeeId,
+      customerName: "Pipeline Customer",
+      customerAddress: "Jl. Test",
+      customerHomeNo: homeNo,
+      village: VILLAGE,
+      coordinates: `${latitude}, ${longitude}`,
+      buildingType: BUILDING_TYPE,
+      operators: ["FS"],
+    });
+    expect(status).toBe(200);
+    expect(body).toMatchObject({
+      success: true,
+      status: "received",
+      suspectedDuplicate: false,
+    });
+    if (!body.success) {
+      throw new Error(`Submission was rejected: ${body.message}`);
+    }
+    const submissionId = body.submissionId;
+
+    // The outbox writes both spreadsheets and opens a bot ticket
+    await deliverOutbox(submissionId);
+    expect(sheetRow("all", submissionId)).toMatchObject({
+      "Customer Name": "Pipeline Customer",
+      "Home No": homeNo,
+      Salesman: SALESMAN.name,
+      Branch: "Pipeline Test",
+      Operators: "FS",
+    });
+    expect(sheetRow("fs", submissionId)).toMatchObject({
+      "Customer Name": "Pipeline Customer",
+      "Coverage Status": "",
+    });
+    const tickets = fakeCoverageBot
+      .tickets()
+      .filter((ticket) => ticket.request.home_no === homeNo);
+    expect(tickets).toHaveLength(1);
+    const ticket = tickets[0]!;
+    expect(ticket.request).toMatchObject({
+      operator: "fiberstar",
+      customer_name: "Pipeline Customer",
+      postal_code: "20111",
+      latitude,
+    });
+    expect(await submissionStatus(submissionId)).toBe("dispatched");
+
+    // Nothing changes while the operator has not answered
+    await pollCoverageStatus(submissionId);
+    expect(await submissionStatus(submissionId)).toBe("dispatched");
+
+    // Covered, but the homepass is not closed yet
+    fakeCoverageBot.setOutcome(ticket.id, "covered");
+    await pollCoverageStatus(submissionId);
+    expect(await submissionStatus(submissionId)).toBe("awaiting_operator");
+    expect(sheetRow("fs", submissionId)).toMatchObject({
+      "Coverage Status": "Covered",
+      "Homepassed ID": "",
+    });
+
+    // The closed homepass makes the result final
+    fakeCoverageBot.setOutcome(ticket.id, "covered_closed");
+    await pollCoverageStatus(submissionId);
+    expect(await submissionStatus(submissionId)).toBe("covered");
+    expect(sheetRow("fs", submissionId)).toMatchObject({
+      "Coverage Status": "Covered",
+      "Homepassed ID": `HP-${ticket.id}`,
+      "Operator Remarks": "Fake bot",
+    });
+    const [checks] = await pool.execute<RowDataPacket[]>(
+      `SELECT external_id, finished FROM coverage_checks WHERE submission_id = ?`,
+      [submissionId],
+    );
+    expect(checks).toEqual([
+      expect.objectContaining({ external_id: String(ticket.id), finished: 1 }),
+    ]);
+  });
+});
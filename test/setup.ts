@@ -0,0 +1,16 @@
+// Loaded before every test file (see bunfig.toml), ahead of src/config.ts
+
+// Tests never talk to the real coverage bot or Google Sheets
+process.env.COVERAGE_BOT_DRIVER = "fake";
+process.env.SHEETS_DRIVER = "fake";
+process.env.ALL_CHECK_COVERAGE_SPREADSHEET = "test-all";
+process.env.FS_CHECK_COVERAGE_SPREADSHEET = "test-fs";
+
+process.env.PHOTO_LINK_SECRET ||= "test-photo-link-secret";
+process.env.DEFAULT_TIMEZONE ||= "Asia/Jakarta";
+process.env.COVERAGE_BOT_WEBHOOK_SECRET ||= "test-webhook-secret";
+
+// The pipeline suite runs against its own database, which it writes to
+if (process.env.TEST_DB_NAME) {
+  process.env.DB_NAME = process.env.TEST_DB_NAME;
+}
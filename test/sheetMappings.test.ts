@@ -0,0 +1,47 @@
+import { describe, expect, test } from "bun:test";
+import {
+  type SpreadsheetTarget,
+  sheetMappings,
+} from "../src/sheetSync/mappings";
+
+const targets = Object.keys(sheetMappings) as SpreadsheetTarget[];
+
+describe("sheet mappings", () => {
+  test("include the spreadsheet every submission goes to", () => {
+    expect(targets).toContain("all");
+  });
+
+  test.each(targets)("%s maps each field once", (target) => {
+    const fields = sheetMappings[target].columns.map((column) => column.field);
+    expect(new Set(fields).size).toBe(fields.length);
+  });
+
+  test.each(targets)("%s has unique headers", (target) => {
+    const headers = sheetMappings[target].columns.map((column) =>
+      column.header.toLowerCase(),
+    );
+    expect(new Set(headers).size).toBe(headers.length);
+  });
+
+  test.each(targets)("%s has unique fallback columns in letters", (target) => {
+    const fallbacks = sheetMappings[target].columns.flatMap((column) =>
+      column.fallback ? [column.fallback] : [],
+    );
+    expect(new Set(fallbacks).size).toBe(fallbacks.length);
+    for (const fallback of fallbacks) {
+      expect(fallback).toMatch(/^[A-Z]+$/);
+    }
+  });
+
+  test.each(targets)("%s starts with the submission ID", (target) => {
+    expect(sheetMappings[target].columns[0]).toMatchObject({
+      field: "id",
+      fallback: "A",
+    });
+  });
+
+  test("read the spreadsheets from the environment", () => {
+    expect(sheetMappings.all.spreadsheetId).toBe("test-all");
+    expect(sheetMappings.fs.spreadsheetId).toBe("test-fs");
+  });
+});
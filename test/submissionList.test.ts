@@ -0,0 +1,24 @@
+import { describe, expect, test } from "bun:test";
+import { parseSubmissionListQuery } from "../src/submissionList";
+
+describe("parseSubmissionListQuery", () => {
+  test.each(["pending", "covered", "not_covered"])(
+    "filters by coverage %s",
+    (coverage) => {
+      const result = parseSubmissionListQuery({ coverage });
+      expect(result).toMatchObject({ ok: true, query: { coverage } });
+    },
+  );
+
+  test("ignores an empty coverage filter", () => {
+    const result = parseSubmissionListQuery({ coverage: "" });
+    expect(result.ok && result.query.coverage).toBeUndefined();
+  });
+
+  test("rejects an unknown coverage filter", () => {
+    expect(parseSubmissionListQuery({ coverage: "maybe" })).toEqual({
+      ok: false,
+      error: "Invalid coverage status",
+    });
+  });
+});
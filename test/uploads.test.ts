@@ -0,0 +1,187 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { storage } from "../src/storage";
+import { appendChunk } from "../src/uploads";
+import { fakePool } from "./fakePool";
+
+// Start of an MP4 file, so assembling it needs no thumbnail or EXIF
+function mp4Start(brand: string): Uint8Array {
+  const bytes = new Uint8Array(12);
+  bytes.set([0x00, 0x00, 0x00, 0x20]);
+  bytes.set(new TextEncoder().encode(`ftyp${brand}`), 4);
+  return bytes;
+}
+
+// The upload_sessions row of the upload under test
+let session: Record<string, any>;
+// The storage contents by key
+let files: Map<string, Uint8Array>;
+let restore: (() => void)[];
+
+function startUpload(size: number) {
+  session = {
+    id: "upload-1",
+    original_filename: "site.mp4",
+    size,
+    received: 0,
+    status: "uploading",
+    media_type: null,
+    expires_at: new Date(Date.now() + 60 * 60 * 1000),
+    filename: null,
+  };
+}
+
+function chunkKeys() {
+  return [...files.keys()].filter((key) => key.startsWith("upload-sessions/"));
+}
+
+beforeEach(() => {
+  files = new Map();
+  startUpload(24);
+
+  restore = [
+    fakePool((sql, params) => {
+      if (sql === "SELECT * FROM upload_sessions WHERE id = ?") {
+        return params[0] === session.id ? [{ ...session }] : [];
+      }
+      if (
+        sql.startsWith("UPDATE upload_sessions SET received = ?, media_type")
+      ) {
+        const [received, mediaType, expiresAt, , offset] = params;
+        if (session.received !== offset || session.status !== "uploading") {
+          return { affectedRows: 0 };
+        }
+        Object.assign(session, {
+          received,
+          media_type: mediaType,
+          expires_at: new Date(expiresAt),
+        });
+        return { affectedRows: 1 };
+      }
+      if (sql.startsWith("UPDATE upload_sessions SET received = ? WHERE")) {
+        const [offset, , received] = params;
+        if (session.received !== received) {
+          return { affectedRows: 0 };
+        }
+        session.received = offset;
+        return { affectedRows: 1 };
+      }
+      if (sql.startsWith("UPDATE upload_sessions SET status = 'completed'")) {
+        Object.assign(session, { status: "completed", filename: params[0] });
+        return { affectedRows: 1 };
+      }
+      const status = sql.match(/^UPDATE upload_sessions SET status = '(\w+)'/);
+      if (status) {
+        session.status = status[1];
+        return { affectedRows: 1 };
+      }
+      throw new Error(`Unexpected statement: ${sql}`);
+    }),
+  ];
+
+  const spies = [
+    spyOn(storage, "put").mockImplementation(async (key, data) => {
+      files.set(key, new Uint8Array(data));
+    }),
+    spyOn(storage, "open").mockImplementation(async (key) => {
+      const bytes = files.get(key);
+      return bytes ? new Blob([bytes]) : null;
+    }),
+    spyOn(storage, "delete").mockImplementation(async (key) => {
+      files.delete(key);
+    }),
+    spyOn(storage, "list").mockImplementation(async function* (prefix = "") {
+      for (const key of [...files.keys()]) {
+        if (key.startsWith(prefix)) {
+          yield key;
+        }
+      }
+    }),
+    spyOn(storage, "writer").mockImplementation(async (key) => {
+      const parts: Uint8Array[] = [];
+      return {
+        async write(part) {
+          parts.push(part);
+        },
+        async end() {
+          files.set(key, new Uint8Array(await new Blob(parts).arrayBuffer()));
+        },
+      };
+    }),
+  ];
+  restore.push(() => spies.forEach((spy) => spy.mockRestore()));
+});
+
+afterEach(() => restore.forEach((undo) => undo()));
+
+describe("appendChunk", () => {
+  test("assembles the chunks into the file once the last one arrives", async () => {
+    const first = mp4Start("isom");
+    const last = new Uint8Array(12).fill(7);
+
+    expect((await appendChunk("upload-1", 0, first)).status).toBe("accepted");
+    const result = await appendChunk("upload-1", 12, last);
+
+    expect(result.status).toBe("accepted");
+    expect(session.status).toBe("completed");
+    expect(files.get(session.filename)).toEqual(
+      new Uint8Array([...first, ...last]),
+    );
+    expect(chunkKeys()).toEqual([]);
+  });
+
+  test("keeps the chunk of the request that claimed the offset", async () => {
+    const [winner, loser] = await Promise.all([
+      appendChunk("upload-1", 0, mp4Start("isom")),
+      appendChunk("upload-1", 0, mp4Start("mp42")),
+    ]);
+
+    expect(winner.status).toBe("accepted");
+    expect(loser.status).toBe("offset_mismatch");
+    expect(session.received).toBe(12);
+    expect(chunkKeys().map((key) => files.get(key))).toEqual([
+      mp4Start("isom"),
+    ]);
+  });
+
+  test("gives the offset back when the chunk can't be stored", async () => {
+    spyOn(storage, "put").mockImplementationOnce(async () => {
+      throw new Error("Disk full");
+    });
+
+    await expect(appendChunk("upload-1", 0, mp4Start("isom"))).rejects.toThrow(
+      "Disk full",
+    );
+    expect(session.received).toBe(0);
+    expect((await appendChunk("upload-1", 0, mp4Start("isom"))).status).toBe(
+      "accepted",
+    );
+  });
+
+  test("fails the session when the chunks don't add up to the file", async () => {
+    await appendChunk("upload-1", 0, mp4Start("isom"));
+    files.clear();
+
+    const result = await appendChunk("upload-1", 12, new Uint8Array(12));
+
+    expect(result).toMatchObject({
+      status: "failed",
+      reason: "Expected a chunk at byte 0",
+      session: { status: "failed" },
+    });
+    expect(files.size).toBe(0);
+    expect((await appendChunk("upload-1", 24, new Uint8Array(1))).status).toBe(
+      "closed",
+    );
+  });
+
+  test("rejects a HEIC photo on its first chunk", async () => {
+    const result = await appendChunk("upload-1", 0, mp4Start("heic"));
+
+    expect(result).toMatchObject({
+      status: "unsupported_type",
+      format: "HEIC photos",
+      session: { status: "expired" },
+    });
+    expect(files.size).toBe(0);
+  });
+});
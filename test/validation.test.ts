@@ -0,0 +1,128 @@
+import { describe, expect, test } from "bun:test";
+import { type Schema, validate, validatePartial } from "../src/validation";
+
+const schema = {
+  name: { type: "string", required: true, maxLength: 10 },
+  code: {
+    type: "string",
+    pattern: /^[A-Z]+$/,
+    patternMessage: "Must be capital letters",
+  },
+  nickname: {
+    type: "string",
+    check: async (value) => (value === "taken" ? "Already taken" : null),
+  },
+  operators: {
+    type: "string[]",
+    required: true,
+    maxItems: 2,
+    oneOf: async () => ["FS", "XL", "IH"],
+  },
+  active: { type: "boolean" },
+} satisfies Schema;
+
+describe("validate", () => {
+  test("returns trimmed values and drops unknown fields", async () => {
+    const result = await validate(schema, {
+      name: "  Budi ",
+      code: "AB",
+      operators: [" FS ", ""],
+      active: false,
+      extra: "ignored",
+    });
+    expect(result).toEqual({
+      success: true,
+      value: {
+        name: "Budi",
+        code: "AB",
+        nickname: undefined,
+        operators: ["FS"],
+        active: false,
+      },
+    });
+  });
+
+  test("reports every failing field", async () => {
+    const result = await validate(schema, {
+      name: "   ",
+      code: "ab",
+      nickname: "taken",
+      operators: [],
+      active: "yes",
+    });
+    expect(result).toEqual({
+      success: false,
+      errors: [
+        { field: "name", message: "This field is required" },
+        { field: "code", message: "Must be capital letters" },
+        { field: "nickname", message: "Already taken" },
+        { field: "operators", message: "Select at least one" },
+        { field: "active", message: "Must be true or false" },
+      ],
+    });
+  });
+
+  test("checks lengths and list items", async () => {
+    const result = await validate(schema, {
+      name: "Budi Santoso Silalahi",
+      operators: ["FS", "XX"],
+    });
+    expect(result).toEqual({
+      success: false,
+      errors: [
+        { field: "name", message: "Must be at most 10 characters" },
+        { field: "operators", message: "Unknown value: XX" },
+      ],
+    });
+  });
+
+  test("limits the number of list items", async () => {
+    const result = await validate(schema, {
+      name: "Budi",
+      operators: ["FS", "XL", "IH"],
+    });
+    expect(result).toEqual({
+      success: false,
+      errors: [{ field: "operators", message: "Select at most 2" }],
+    });
+  });
+
+  test("rejects values of the wrong type", async () => {
+    const result = await validate(schema, { name: 42, operators: "FS" });
+    expect(result).toEqual({
+      success: false,
+      errors: [
+        { field: "name", message: "Must be a text value" },
+        { field: "operators", message: "Must be a list of text values" },
+      ],
+    });
+  });
+
+  test.each([null, 42, "Budi", ["Budi"]])(
+    "rejects %p instead of an object",
+    async (input) => {
+      const error = {
+        success: false as const,
+        errors: [{ field: "body", message: "Must be a JSON object" }],
+      };
+      expect(await validate(schema, input)).toEqual(error);
+      expect(await validatePartial(schema, input)).toEqual(error);
+    },
+  );
+});
+
+describe("validatePartial", () => {
+  test("only validates the fields present", async () => {
+    expect(await validatePartial(schema, { code: "XY" })).toEqual({
+      success: true,
+      value: { code: "XY" },
+    });
+  });
+
+  test("still requires a present required field", async () => {
+    expect(await validatePartial(schema, { name: "" })).toEqual({
+      success: false,
+      errors: [{ field: "name", message: "This field is required" }],
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { receiveWebhook, signWebhook } from "../src/webhooks";
+import { fakePool, mysqlError } from "./fakePool";
+
+// The webhook_nonces table
+let nonces: Set<string>;
+let restorePool: () => void;
+
+beforeEach(() => {
+  nonces = new Set();
+  restorePool = fakePool((sql, params) => {
+    if (sql.startsWith("INSERT INTO webhook_nonces")) {
+      if (nonces.has(params[0])) {
+        throw mysqlError("ER_DUP_ENTRY");
+      }
+      nonces.add(params[0]);
+      return { affectedRows: 1 };
+    }
+    if (sql === "DELETE FROM webhook_nonces WHERE nonce = ?") {
+      return { affectedRows: Number(nonces.delete(params[0])) };
+    }
+    if (sql.startsWith("DELETE FROM webhook_nonces WHERE received_at < ?")) {
+      return { affectedRows: 0 };
+    }
+    throw new Error(`Unexpected statement: ${sql}`);
+  });
+});
+
+afterEach(() => restorePool());
+
+function signedRequest(body: string, nonce = "nonce-1") {
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  return {
+    signature: signWebhook(timestamp, nonce, body),
+    timestamp,
+    nonce,
+    body,
+  };
+}
+
+describe("receiveWebhook", () => {
+  test("hands a signed callback to the handler once", async () => {
+    const request = signedRequest('{"data":{"id":1}}');
+    expect(await receiveWebhook(request, async () => "done")).toEqual({
+      status: "handled",
+      result: "done",
+    });
+    expect(await receiveWebhook(request, async () => "again")).toEqual({
+      status: "replayed",
+    });
+  });
+
+  test("accepts the retry of a delivery whose handling failed", async () => {
+    const request = signedRequest('{"data":{"id":1}}');
+    await expect(
+      receiveWebhook(request, async () => {
+        throw new Error("Database unavailable");
+      }),
+    ).rejects.toThrow("Database unavailable");
+    expect(nonces.size).toBe(0);
+
+    expect(await receiveWebhook(request, async () => "done")).toEqual({
+      status: "handled",
+      result: "done",
+    });
+    expect(nonces.has("nonce-1")).toBe(true);
+  });
+
+  test("rejects tampered and unsigned callbacks", async () => {
+    const request = signedRequest('{"data":{"id":1}}');
+    const handle = async () => "done";
+    expect(
+      await receiveWebhook({ ...request, body: '{"data":{"id":2}}' }, handle),
+    ).toEqual({ status: "invalid_signature" });
+    expect(
+      await receiveWebhook({ ...request, signature: undefined }, handle),
+    ).toEqual({ status: "invalid_signature" });
+    expect(nonces.size).toBe(0);
+  });
+
+  test("rejects callbacks outside the time tolerance", async () => {
+    const body = "{}";
+    const timestamp = String(Math.floor(Date.now() / 1000) - 3600);
+    expect(
+      await receiveWebhook(
+        {
+          signature: signWebhook(timestamp, "nonce-2", body),
+          timestamp,
+          nonce: "nonce-2",
+          body,
+        },
+        async () => "done",
+      ),
+    ).toEqual({ status: "stale" });
+  });
+});